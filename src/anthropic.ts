@@ -0,0 +1,291 @@
+import type { ChatCompletionRequest, ChatCompletionResponse, ChatMessage, ToolCall } from './types.js';
+import { providerError, ProviderError } from './retry.js';
+import { readSSE } from './sse.js';
+
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+// ── Messages API Types ──────────────────────────────────────────────────────
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+export interface AnthropicRequest {
+  model: string;
+  max_tokens: number;
+  system?: string;
+  messages: AnthropicMessage[];
+  tools?: Array<{ name: string; description: string; input_schema: unknown }>;
+}
+
+export interface AnthropicResponse {
+  id: string;
+  role: 'assistant';
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+const STOP_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  tool_use: 'tool_calls',
+  max_tokens: 'length',
+};
+
+// ── Mapping ─────────────────────────────────────────────────────────────────
+
+function parseToolInput(call: ToolCall): unknown {
+  try {
+    return JSON.parse(call.function.arguments || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function toContentBlocks(message: ChatMessage): AnthropicContentBlock[] {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.tool_call_id ?? '', content: message.content ?? '' }];
+  }
+
+  const blocks: AnthropicContentBlock[] = [];
+  if (message.content) {
+    blocks.push({ type: 'text', text: message.content });
+  }
+  for (const call of message.tool_calls ?? []) {
+    blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseToolInput(call) });
+  }
+  return blocks;
+}
+
+/**
+ * Convert an OpenAI-style chat request into a Messages API request.
+ * System messages move to the top-level `system` field, tool results become
+ * `tool_result` blocks in a user turn, and consecutive turns of the same role
+ * are merged since the Messages API requires strict alternation.
+ */
+export function toAnthropicRequest(request: ChatCompletionRequest, maxTokens = DEFAULT_MAX_TOKENS): AnthropicRequest {
+  const system: string[] = [];
+  const messages: AnthropicMessage[] = [];
+
+  for (const message of request.messages) {
+    if (message.role === 'system') {
+      if (message.content) system.push(message.content);
+      continue;
+    }
+
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const blocks = toContentBlocks(message);
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  }
+
+  const result: AnthropicRequest = {
+    model: request.model,
+    max_tokens: maxTokens,
+    messages,
+  };
+
+  if (system.length > 0) {
+    result.system = system.join('\n\n');
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    result.tools = request.tools.map(t => ({
+      name: t.function.name,
+      description: t.function.description,
+      input_schema: t.function.parameters,
+    }));
+  }
+
+  return result;
+}
+
+/**
+ * Convert a Messages API response back into the chat completion shape the
+ * executor works with.
+ */
+export function fromAnthropicResponse(response: AnthropicResponse): ChatCompletionResponse {
+  const text: string[] = [];
+  const toolCalls: ToolCall[] = [];
+
+  for (const block of response.content) {
+    if (block.type === 'text') {
+      text.push(block.text);
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  }
+
+  const message: ChatMessage = {
+    role: 'assistant',
+    content: text.length > 0 ? text.join('') : null,
+  };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+
+  const stopReason = response.stop_reason ?? 'end_turn';
+
+  return {
+    id: response.id,
+    choices: [{ index: 0, message, finish_reason: STOP_REASONS[stopReason] ?? stopReason }],
+    usage: response.usage
+      ? {
+        prompt_tokens: response.usage.input_tokens,
+        completion_tokens: response.usage.output_tokens,
+        total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+      }
+      : undefined,
+  };
+}
+
+// ── Streaming ───────────────────────────────────────────────────────────────
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicResponse }
+  | { type: 'content_block_start'; index: number; content_block: AnthropicContentBlock }
+  | {
+    type: 'content_block_delta';
+    index: number;
+    delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+  }
+  | { type: 'message_delta'; delta: { stop_reason?: string | null }; usage?: { output_tokens: number } }
+  | { type: 'error'; error: { type: string; message: string } }
+  | { type: 'content_block_stop' | 'message_stop' | 'ping' };
+
+/**
+ * Assemble a Messages API response from its event stream. Tool inputs arrive
+ * as partial JSON fragments and are parsed once the stream ends.
+ */
+async function readAnthropicStream(
+  body: ReadableStream<Uint8Array>,
+  onFirstToken: () => void,
+): Promise<AnthropicResponse> {
+  let message: AnthropicResponse = { id: '', role: 'assistant', content: [], stop_reason: null };
+  const inputJson = new Map<number, string>();
+  let receivedToken = false;
+
+  for await (const { data } of readSSE(body)) {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+
+    switch (event.type) {
+      case 'message_start':
+        message = { ...event.message, content: [] };
+        break;
+
+      case 'content_block_start':
+        message.content[event.index] = event.content_block;
+        break;
+
+      case 'content_block_delta': {
+        if (!receivedToken) {
+          receivedToken = true;
+          onFirstToken();
+        }
+        const block = message.content[event.index];
+        if (event.delta.type === 'text_delta' && block?.type === 'text') {
+          block.text += event.delta.text;
+        } else if (event.delta.type === 'input_json_delta') {
+          inputJson.set(event.index, (inputJson.get(event.index) ?? '') + event.delta.partial_json);
+        }
+        break;
+      }
+
+      case 'message_delta':
+        message.stop_reason = event.delta.stop_reason ?? message.stop_reason;
+        if (event.usage && message.usage) {
+          message.usage.output_tokens = event.usage.output_tokens;
+        }
+        break;
+
+      case 'error':
+        // Overloaded errors can arrive mid-stream; surface them as retryable
+        throw new ProviderError(
+          `LLM API error: ${event.error.type} — ${event.error.message}`,
+          event.error.type === 'overloaded_error' ? 529 : 500,
+        );
+    }
+  }
+
+  for (const [index, json] of inputJson) {
+    const block = message.content[index];
+    if (block?.type === 'tool_use') {
+      try {
+        block.input = JSON.parse(json || '{}');
+      } catch {
+        block.input = {};
+      }
+    }
+  }
+
+  message.content = message.content.filter(Boolean);
+  return message;
+}
+
+// ── API ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Send a chat request to the Anthropic Messages API. Passing `onFirstToken`
+ * streams the response and calls it when the first content delta arrives.
+ */
+export async function callAnthropic(
+  request: ChatCompletionRequest,
+  options: {
+    baseUrl: string;
+    apiKey?: string;
+    signal: AbortSignal;
+    maxTokens?: number;
+    onFirstToken?: () => void;
+  },
+): Promise<ChatCompletionResponse> {
+  const url = `${options.baseUrl.replace(/\/$/, '')}/messages`;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+
+  if (options.apiKey) {
+    headers['x-api-key'] = options.apiKey;
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      ...toAnthropicRequest(request, options.maxTokens),
+      ...(options.onFirstToken ? { stream: true } : {}),
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw await providerError(response);
+  }
+
+  if (options.onFirstToken && response.body) {
+    return fromAnthropicResponse(await readAnthropicStream(response.body, options.onFirstToken));
+  }
+
+  return fromAnthropicResponse((await response.json()) as AnthropicResponse);
+}
@@ -1,13 +1,19 @@
+import { readFileSync } from 'node:fs';
 import type {
   AssertionResult,
   StepExpectation,
   GlobalAssertion,
   ToolCall,
-  ArgValue,
   NumericAssertion,
   ResponseAssertion,
   ToolCallAssertion,
+  ToolDefinition,
+  Combinators,
+  JsonResponseAssertion,
 } from './types.js';
+import { validateSchema, type JsonSchema } from './schema.js';
+import { matchArgs, allPassed } from './matchers.js';
+import { extractJSON } from './jsonpath.js';
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -19,84 +25,6 @@ function fail(message: string): AssertionResult {
   return { passed: false, message };
 }
 
-function checkArgValue(actual: unknown, expected: ArgValue, path: string): AssertionResult {
-  // Primitive comparison
-  if (typeof expected === 'string') {
-    return String(actual) === expected
-      ? ok(`${path} = "${expected}"`)
-      : fail(`${path}: expected "${expected}", got "${actual}"`);
-  }
-
-  if (typeof expected === 'number') {
-    return Number(actual) === expected
-      ? ok(`${path} = ${expected}`)
-      : fail(`${path}: expected ${expected}, got ${actual}`);
-  }
-
-  if (typeof expected === 'boolean') {
-    return actual === expected
-      ? ok(`${path} = ${expected}`)
-      : fail(`${path}: expected ${expected}, got ${actual}`);
-  }
-
-  // Object assertion
-  if (typeof expected === 'object' && expected !== null) {
-    const assertion = expected as Record<string, unknown>;
-    const actualStr = String(actual ?? '');
-    const actualNum = Number(actual);
-
-    if ('equals' in assertion) {
-      return String(actual) === String(assertion.equals)
-        ? ok(`${path} equals "${assertion.equals}"`)
-        : fail(`${path}: expected equals "${assertion.equals}", got "${actual}"`);
-    }
-
-    if ('contains' in assertion) {
-      const needle = String(assertion.contains);
-      return actualStr.includes(needle)
-        ? ok(`${path} contains "${needle}"`)
-        : fail(`${path}: expected to contain "${needle}", got "${actualStr}"`);
-    }
-
-    if ('not_contains' in assertion) {
-      const needle = String(assertion.not_contains);
-      return !actualStr.includes(needle)
-        ? ok(`${path} does not contain "${needle}"`)
-        : fail(`${path}: expected NOT to contain "${needle}", but it does`);
-    }
-
-    if ('matches' in assertion) {
-      const pattern = String(assertion.matches);
-      const re = new RegExp(pattern);
-      return re.test(actualStr)
-        ? ok(`${path} matches /${pattern}/`)
-        : fail(`${path}: expected to match /${pattern}/, got "${actualStr}"`);
-    }
-
-    if ('gte' in assertion || 'lte' in assertion) {
-      const results: AssertionResult[] = [];
-      if ('gte' in assertion) {
-        results.push(
-          actualNum >= Number(assertion.gte)
-            ? ok(`${path} >= ${assertion.gte}`)
-            : fail(`${path}: expected >= ${assertion.gte}, got ${actualNum}`),
-        );
-      }
-      if ('lte' in assertion) {
-        results.push(
-          actualNum <= Number(assertion.lte)
-            ? ok(`${path} <= ${assertion.lte}`)
-            : fail(`${path}: expected <= ${assertion.lte}, got ${actualNum}`),
-        );
-      }
-      const failed = results.find(r => !r.passed);
-      return failed ?? results[0] ?? ok(`${path} in range`);
-    }
-  }
-
-  return fail(`${path}: unsupported assertion type`);
-}
-
 function checkNumeric(actual: number, assertion: NumericAssertion, label: string): AssertionResult[] {
   const results: AssertionResult[] = [];
   if (assertion.gte !== undefined) {
@@ -161,9 +89,7 @@ function evaluateToolCallAssertion(
       return results;
     }
 
-    for (const [key, expectedValue] of Object.entries(expected.args)) {
-      results.push(checkArgValue(args[key], expectedValue as ArgValue, `Args match: ${key}`));
-    }
+    results.push(...matchArgs(args, expected.args, 'Args match: '));
   }
 
   return results;
@@ -185,6 +111,30 @@ function evaluateToolCallsNot(
   return results;
 }
 
+// ── Tool Argument Validation ────────────────────────────────────────────────
+
+function evaluateToolCallArgs(call: ToolCall, tools: ToolDefinition[]): AssertionResult[] {
+  const name = call.function.name;
+  const tool = tools.find(t => t.name === name);
+  if (!tool) {
+    return [fail(`Tool ${name} is not declared in tools`)];
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.function.arguments || '{}');
+  } catch {
+    const raw = call.function.arguments;
+    return [fail(`${name}: arguments are not valid JSON — got: "${raw.slice(0, 100)}${raw.length > 100 ? '...' : ''}"`)];
+  }
+
+  const errors = validateSchema(args, tool.parameters as unknown as JsonSchema, 'args');
+  if (errors.length === 0) {
+    return [ok(`Args valid: ${name}`)];
+  }
+  return errors.map(e => fail(`Invalid args for ${name}: ${e}`));
+}
+
 // ── Response Assertions ─────────────────────────────────────────────────────
 
 function evaluateResponseAssertion(
@@ -249,6 +199,92 @@ function evaluateResponseAssertion(
     );
   }
 
+  if (expected.json) {
+    results.push(...evaluateJsonResponse(expected.json === true ? {} : expected.json, actual));
+  }
+
+  return results;
+}
+
+function evaluateJsonResponse(expected: JsonResponseAssertion, actual: string): AssertionResult[] {
+  let value: unknown;
+  try {
+    value = extractJSON(actual);
+  } catch (error) {
+    return [fail(`Response is not valid JSON (${(error as Error).message}) — got: "${actual.slice(0, 100)}${actual.length > 100 ? '...' : ''}"`)];
+  }
+  const results: AssertionResult[] = [ok('Response is valid JSON')];
+
+  if (expected.schema) {
+    let schema: JsonSchema;
+    try {
+      schema = 'file' in expected.schema && typeof expected.schema.file === 'string'
+        ? JSON.parse(readFileSync(expected.schema.file, 'utf-8')) as JsonSchema
+        : expected.schema as JsonSchema;
+    } catch (error) {
+      return [...results, fail(`Cannot load response schema: ${(error as Error).message}`)];
+    }
+    const errors = validateSchema(value, schema, 'response');
+    results.push(...(errors.length === 0
+      ? [ok('Response matches JSON schema')]
+      : errors.map(e => fail(`Response JSON schema: ${e}`))));
+  }
+
+  if (expected.match) {
+    results.push(...matchArgs(value as Record<string, unknown>, expected.match, 'Response JSON: '));
+  }
+
+  return results;
+}
+
+// ── Combinators ─────────────────────────────────────────────────────────────
+
+/** Failures of a branch if it failed, otherwise what it checked. */
+function describeBranch(results: AssertionResult[]): string {
+  const failed = results.filter(r => !r.passed);
+  const shown = failed.length > 0 ? failed : results;
+  return shown.length > 0 ? shown.map(r => r.message).join('; ') : 'no assertions';
+}
+
+function evaluateCombinators<T>(
+  combinators: Combinators<T>,
+  evaluate: (branch: T) => AssertionResult[],
+): AssertionResult[] {
+  const results: AssertionResult[] = [];
+
+  if (combinators.any_of) {
+    const branches = combinators.any_of.map(evaluate);
+    const matched = branches.findIndex(allPassed);
+    const others = branches
+      .map((branch, i) => ({ branch, i }))
+      .filter(({ i }) => i !== matched)
+      .map(({ branch, i }) => `branch ${i + 1} failed: ${describeBranch(branch)}`);
+    if (matched >= 0) {
+      const why = [`branch ${matched + 1} matched: ${describeBranch(branches[matched]!)}`, ...others];
+      results.push(ok(`any_of: ${why.join(' | ')}`));
+    } else {
+      results.push(fail(`any_of: no branch matched — ${others.join(' | ')}`));
+    }
+  }
+
+  if (combinators.all_of) {
+    const branches = combinators.all_of.map(evaluate);
+    const failed = branches
+      .map((branch, i) => ({ branch, i }))
+      .filter(({ branch }) => !allPassed(branch))
+      .map(({ branch, i }) => `branch ${i + 1} failed: ${describeBranch(branch)}`);
+    results.push(failed.length === 0
+      ? ok(`all_of: all ${branches.length} branches matched`)
+      : fail(`all_of: ${failed.join(' | ')}`));
+  }
+
+  if (combinators.not) {
+    const branch = evaluate(combinators.not);
+    results.push(allPassed(branch)
+      ? fail(`not: expected the branch to fail, but it matched: ${describeBranch(branch)}`)
+      : ok(`not: branch failed as expected: ${describeBranch(branch)}`));
+  }
+
   return results;
 }
 
@@ -281,9 +317,19 @@ export function evaluateStepAssertions(
     results.push(fail('Expected a text response but got none'));
   }
 
+  results.push(...evaluateCombinators(expect, branch => evaluateStepAssertions(branch, toolCalls, response)));
+
   return results;
 }
 
+/**
+ * Validate tool calls against the declared tools: each called tool must be
+ * declared, and its arguments must be valid JSON matching its parameter schema.
+ */
+export function evaluateToolArgs(toolCalls: ToolCall[], tools: ToolDefinition[]): AssertionResult[] {
+  return toolCalls.flatMap(call => evaluateToolCallArgs(call, tools));
+}
+
 /**
  * Evaluate global assertions (across the whole test).
  */
@@ -325,5 +371,9 @@ export function evaluateGlobalAssertions(
     results.push(...checkNumeric(totalTokens, assert.total_tokens, 'Total tokens'));
   }
 
+  results.push(...evaluateCombinators(assert, branch =>
+    evaluateGlobalAssertions(branch, allToolCalls, totalTurns, totalTokens),
+  ));
+
   return results;
 }
@@ -0,0 +1,130 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { relative } from 'node:path';
+import type {
+  Baseline,
+  BaselineComparison,
+  ComparisonStatus,
+  MetricChange,
+  RegressionThresholds,
+  RunResult,
+  TestComparison,
+} from './types.js';
+
+// ── Baselines ───────────────────────────────────────────────────────────────
+
+function entryKey(entry: { file: string; name: string; variant?: string }): string {
+  return `${entry.file}\0${entry.name}\0${entry.variant ?? ''}`;
+}
+
+/**
+ * Snapshot each test's outcome and metrics from a run. Skipped tests have
+ * neither, so they are left out (and compare as not run).
+ */
+export function createBaseline(result: RunResult, now = new Date()): Baseline {
+  return {
+    version: 1,
+    created_at: now.toISOString(),
+    tests: result.tests.filter(t => !t.skipped).map(t => ({
+      name: t.name,
+      file: relative(process.cwd(), t.file) || t.file,
+      ...(t.variant ? { variant: t.variant } : {}),
+      passed: t.passed,
+      tokens: t.totalTokens,
+      cost_usd: t.estimatedCost,
+      turns: t.turns ?? 0,
+      duration_ms: t.durationMs,
+    })),
+  };
+}
+
+export function saveBaseline(path: string, result: RunResult): void {
+  writeFileSync(path, JSON.stringify(createBaseline(result), null, 2) + '\n');
+}
+
+export function loadBaseline(path: string): Baseline {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read baseline ${path}: ${(error as Error).message}`);
+  }
+  const baseline = raw as Partial<Baseline> | null;
+  if (baseline?.version !== 1 || !Array.isArray(baseline.tests)) {
+    throw new Error(`${path} is not a promptman-test baseline (create one with --save-baseline)`);
+  }
+  return baseline as Baseline;
+}
+
+function change(before: number, after: number): MetricChange {
+  return {
+    before,
+    after,
+    change_pct: before === 0 ? null : ((after - before) / before) * 100,
+  };
+}
+
+const METRICS: Array<{ key: 'tokens' | 'cost_usd' | 'turns' | 'duration_ms'; threshold: keyof RegressionThresholds }> = [
+  { key: 'tokens', threshold: 'tokens' },
+  { key: 'cost_usd', threshold: 'cost' },
+  { key: 'turns', threshold: 'turns' },
+  { key: 'duration_ms', threshold: 'duration' },
+];
+
+/**
+ * Compare a run with a baseline: pass/fail transitions per test, metric
+ * changes, and metrics that grew past their threshold (in percent).
+ */
+export function compareBaseline(
+  baseline: Baseline,
+  result: RunResult,
+  thresholds: RegressionThresholds = {},
+): BaselineComparison {
+  const current = createBaseline(result).tests;
+  const before = new Map(baseline.tests.map(t => [entryKey(t), t]));
+  const tests: TestComparison[] = [];
+
+  for (const now of current) {
+    const key = entryKey(now);
+    const old = before.get(key);
+    before.delete(key);
+    const base = { name: now.name, file: now.file, ...(now.variant ? { variant: now.variant } : {}) };
+
+    if (!old) {
+      tests.push({ ...base, status: 'new', regressions: [] });
+      continue;
+    }
+
+    const status: ComparisonStatus = old.passed === now.passed
+      ? (now.passed ? 'passing' : 'failing')
+      : (now.passed ? 'fixed' : 'broken');
+    const comparison: TestComparison = { ...base, status, regressions: [] };
+
+    for (const metric of METRICS) {
+      const delta = change(old[metric.key], now[metric.key]);
+      comparison[metric.key] = delta;
+      const limit = thresholds[metric.threshold];
+      if (limit !== undefined && delta.change_pct !== null && delta.change_pct > limit) {
+        comparison.regressions.push(`${metric.threshold} +${Math.round(delta.change_pct)}% (limit ${limit}%)`);
+      }
+    }
+    tests.push(comparison);
+  }
+
+  for (const old of before.values()) {
+    tests.push({
+      name: old.name,
+      file: old.file,
+      ...(old.variant ? { variant: old.variant } : {}),
+      status: 'missing',
+      regressions: [],
+    });
+  }
+
+  return {
+    baseline_created_at: baseline.created_at,
+    tests,
+    broken: tests.filter(t => t.status === 'broken').length,
+    fixed: tests.filter(t => t.status === 'fixed').length,
+    regressions: tests.filter(t => t.regressions.length > 0).length,
+  };
+}
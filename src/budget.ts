@@ -0,0 +1,37 @@
+import type { RunBudget } from './types.js';
+import { formatCost } from './utils.js';
+
+// ── Run Budget ──────────────────────────────────────────────────────────────
+
+export interface BudgetTracker {
+  tokens: number;
+  cost: number;
+  /** Set once a limit has been passed */
+  exceeded?: { exceeded: 'cost' | 'tokens'; limit: number };
+  add(usage: { tokens: number; cost: number }): void;
+}
+
+/**
+ * Running totals for the run budget. Once a limit is passed, `cancel` is
+ * aborted with an error naming the limit, which in-flight tests report.
+ */
+export function trackBudget(limits: RunBudget | undefined, cancel: AbortController): BudgetTracker {
+  const tracker: BudgetTracker = {
+    tokens: 0,
+    cost: 0,
+    add({ tokens, cost }) {
+      tracker.tokens += tokens;
+      tracker.cost += cost;
+      if (tracker.exceeded || !limits) return;
+
+      if (limits.max_cost !== undefined && tracker.cost > limits.max_cost) {
+        tracker.exceeded = { exceeded: 'cost', limit: limits.max_cost };
+        cancel.abort(new Error(`Run budget exceeded: ~${formatCost(tracker.cost)} spent, limit is $${limits.max_cost.toFixed(2)}`));
+      } else if (limits.max_tokens !== undefined && tracker.tokens > limits.max_tokens) {
+        tracker.exceeded = { exceeded: 'tokens', limit: limits.max_tokens };
+        cancel.abort(new Error(`Run budget exceeded: ${tracker.tokens.toLocaleString()} tokens used, limit is ${limits.max_tokens.toLocaleString()}`));
+      }
+    },
+  };
+  return tracker;
+}
@@ -0,0 +1,136 @@
+import type { AssertionResult, CaptureSpec, TestStep, ToolCall } from './types.js';
+import { getPath, extractJSON } from './jsonpath.js';
+import { renderTemplate } from './cases.js';
+
+// ── Captures ────────────────────────────────────────────────────────────────
+
+export type CaptureSource =
+  | { kind: 'response' }
+  | { kind: 'args' | 'result'; tool: string };
+
+/** What a step produced, for captures to read from. */
+export interface StepOutput {
+  toolCalls: ToolCall[];
+  /** tool_call_id → mocked result content */
+  toolResults: Map<string, string>;
+  response?: string;
+}
+
+/**
+ * Parse a capture `from:` value: `response`, `args.<tool>` or `result.<tool>`.
+ */
+export function parseCaptureSource(from: string): CaptureSource {
+  if (from === 'response') return { kind: 'response' };
+  const match = /^(args|result)\.(.+)$/.exec(from);
+  if (!match) {
+    throw new Error(`"from" must be "response", "args.<tool>" or "result.<tool>", got: ${from}`);
+  }
+  return { kind: match[1] as 'args' | 'result', tool: match[2]! };
+}
+
+/**
+ * Names captured anywhere in a list of steps. Accepts raw YAML steps too, so
+ * case templating can leave capture placeholders for run time.
+ */
+export function captureNames(steps: unknown): Set<string> {
+  const names = new Set<string>();
+  if (!Array.isArray(steps)) return names;
+  for (const step of steps) {
+    const capture = (step as { capture?: unknown } | null)?.capture;
+    if (typeof capture === 'object' && capture !== null) {
+      for (const name of Object.keys(capture)) names.add(name);
+    }
+  }
+  return names;
+}
+
+/** Whether a `{{placeholder}}` refers to one of `names` (dotted lookups included). */
+export function isCaptureRef(names: Set<string>, placeholder: string): boolean {
+  return names.has(placeholder.split('.')[0]!);
+}
+
+function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function readSource(source: CaptureSource, output: StepOutput): { value: unknown } | { missing: string } {
+  if (source.kind === 'response') {
+    if (output.response === undefined) return { missing: 'no assistant response' };
+    return { value: output.response };
+  }
+
+  const call = output.toolCalls.filter(tc => tc.function.name === source.tool).at(-1);
+  if (!call) return { missing: `no ${source.tool} call in this step` };
+
+  const text = source.kind === 'args' ? call.function.arguments : output.toolResults.get(call.id);
+  if (text === undefined) return { missing: `no result for ${source.tool}` };
+  return { value: parseJSON(text) };
+}
+
+function extract(spec: CaptureSpec, value: unknown): { value: unknown } | { missing: string } {
+  if (spec.path) {
+    // The response is plain text; a path means it should hold JSON
+    let target = value;
+    if (typeof value === 'string') {
+      try {
+        target = extractJSON(value);
+      } catch {
+        return { missing: 'not valid JSON' };
+      }
+    }
+    value = getPath(target, spec.path);
+    if (value === undefined) return { missing: `nothing at ${spec.path}` };
+  }
+
+  if (spec.regex) {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    const match = new RegExp(spec.regex).exec(text);
+    if (!match) return { missing: `/${spec.regex}/ did not match` };
+    value = match[1] ?? match[0];
+  }
+
+  return { value };
+}
+
+/**
+ * Evaluate a step's `capture:` block. Values that cannot be found become
+ * failed assertions so the step fails with a clear message.
+ */
+export function evaluateCaptures(
+  captures: Record<string, CaptureSpec>,
+  output: StepOutput,
+): { values: Record<string, unknown>; failures: AssertionResult[] } {
+  const values: Record<string, unknown> = {};
+  const failures: AssertionResult[] = [];
+
+  for (const [name, spec] of Object.entries(captures)) {
+    const source = readSource(parseCaptureSource(spec.from), output);
+    const result = 'value' in source ? extract(spec, source.value) : source;
+    if ('value' in result) {
+      values[name] = result.value;
+    } else {
+      failures.push({ passed: false, message: `Capture "${name}" from ${spec.from}: ${result.missing}` });
+    }
+  }
+
+  return { values, failures };
+}
+
+/**
+ * Fill captured `{{name}}` placeholders in a step's user message,
+ * expectations and mocks. Other placeholders are left as written.
+ */
+export function applyCaptures(step: TestStep, values: Record<string, unknown>, names: Set<string>): TestStep {
+  const keep = (placeholder: string) => !isCaptureRef(names, placeholder);
+  const user = renderTemplate(step.user, values, keep);
+  return {
+    ...step,
+    user: user === undefined || typeof user === 'string' ? user : JSON.stringify(user),
+    expect: renderTemplate(step.expect, values, keep),
+    mock: renderTemplate(step.mock, values, keep),
+  };
+}
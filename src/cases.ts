@@ -0,0 +1,153 @@
+import { readFileSync, existsSync } from 'node:fs';
+import { dirname, resolve, extname } from 'node:path';
+
+// ── Data-driven Cases ───────────────────────────────────────────────────────
+
+export type CaseRow = Record<string, unknown>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][\w.]*)\s*\}\}$/;
+
+/**
+ * Parse CSV text with a header row into one object per line. Supports quoted
+ * fields with embedded commas, quotes ("") and newlines. Values stay strings.
+ */
+export function parseCSV(text: string): CaseRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+  const columns = header.map(h => h.trim());
+  return rows.map(row => Object.fromEntries(columns.map((col, i) => [col, row[i] ?? ''])));
+}
+
+/**
+ * Load case rows from an inline list or a CSV/JSON file path (relative to the
+ * test file). Returns the rows and the resolved file path, if any.
+ */
+export function loadCases(raw: unknown, testFile: string): { rows: CaseRow[]; source?: string } {
+  if (Array.isArray(raw)) {
+    if (!raw.every(row => typeof row === 'object' && row !== null && !Array.isArray(row))) {
+      throw new Error('"cases" rows must be objects');
+    }
+    return { rows: raw as CaseRow[] };
+  }
+
+  if (typeof raw !== 'string') {
+    throw new Error('"cases" must be a list of rows or a path to a CSV or JSON file');
+  }
+
+  const source = resolve(dirname(testFile), raw);
+  if (!existsSync(source)) {
+    throw new Error(`cases file not found: ${raw}`);
+  }
+
+  const content = readFileSync(source, 'utf-8');
+  switch (extname(source).toLowerCase()) {
+    case '.csv':
+      return { rows: parseCSV(content), source };
+    case '.json': {
+      let rows: unknown;
+      try {
+        rows = JSON.parse(content);
+      } catch (err) {
+        throw new Error(`Invalid JSON in cases file ${raw}: ${(err as Error).message}`);
+      }
+      if (!Array.isArray(rows)) {
+        throw new Error(`cases file ${raw} must contain a JSON array of objects`);
+      }
+      return { ...loadCases(rows, testFile), source };
+    }
+    default:
+      throw new Error(`cases file must be .csv or .json, got: ${raw}`);
+  }
+}
+
+function lookup(vars: CaseRow, path: string): unknown {
+  let value: unknown = vars;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null || !(key in value)) {
+      throw new Error(`Unknown variable {{${path}}}`);
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Replace `{{var}}` placeholders in every string of a YAML value. A string
+ * that is exactly one placeholder takes the variable's value as-is, so
+ * numbers and objects from JSON cases keep their type. Placeholders whose
+ * name passes `keep` are left untouched for a later pass.
+ */
+export function renderTemplate<T>(value: T, vars: CaseRow, keep?: (name: string) => boolean): T {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole) return keep?.(whole[1]!) ? value : lookup(vars, whole[1]!) as T;
+    return value.replace(PLACEHOLDER, (match, path: string) => {
+      if (keep?.(path)) return match;
+      const v = lookup(vars, path);
+      return typeof v === 'string' ? v : JSON.stringify(v);
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, vars, keep)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, renderTemplate(v, vars, keep)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Readable label for a case: its `_name` column, or its values. Long labels
+ * are cut short and end with the 1-based row number, so rows that differ
+ * only past the cut still get different names.
+ */
+export function caseLabel(row: CaseRow, index: number): string {
+  if (typeof row._name === 'string' && row._name) return row._name;
+
+  const label = Object.entries(row)
+    .filter(([key]) => key !== '_name')
+    .map(([key, v]) => `${key}=${typeof v === 'string' ? v : JSON.stringify(v)}`)
+    .join(', ');
+  if (label.length <= 60) return label;
+  const suffix = ` #${index + 1}`;
+  return `${label.slice(0, 59 - suffix.length)}…${suffix}`;
+}
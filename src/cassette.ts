@@ -0,0 +1,234 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { dirname, join, basename, relative, resolve, sep } from 'node:path';
+import type { CassetteMode, ChatCompletionRequest, ChatCompletionResponse } from './types.js';
+
+const CASSETTE_VERSION = 1;
+
+interface CassetteInteraction {
+  request: ChatCompletionRequest;
+  response: ChatCompletionResponse;
+}
+
+interface CassetteMeta {
+  test: string;
+  model: string;
+  fingerprint: string;
+}
+
+interface CassetteFile {
+  version: number;
+  test: string;
+  model: string;
+  fingerprint: string;
+  recorded_at: string;
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteError extends Error {
+  constructor(path: string, message: string) {
+    super(`[${path}] ${message}`);
+    this.name = 'CassetteError';
+  }
+}
+
+/** Readable ASCII form of a test name; accents are dropped, other characters become dashes. */
+function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'test';
+}
+
+/**
+ * Path of the cassette for a test. Defaults to a `__cassettes__` directory
+ * next to the test file; `dir` (resolved from cwd) overrides that location
+ * and mirrors the test file's directory relative to cwd, so same-named
+ * files in different directories don't share cassettes. The slug of the
+ * test name is followed by a short hash of the full name, since different
+ * names can slugify alike ("Refund A/B", "Refund A-B").
+ */
+export function cassettePath(testFile: string, testName: string, dir?: string): string {
+  const fileSlug = basename(testFile).replace(/\.test\.ya?ml$/, '');
+  const nameHash = createHash('sha256').update(testName).digest('hex').slice(0, 8);
+  // Files outside cwd stay inside `dir`: each ".." becomes "_"
+  const fileDir = relative(process.cwd(), resolve(dirname(testFile))).split(sep).map(part => (part === '..' ? '_' : part));
+  const cassetteDir = dir ? join(resolve(dir), ...fileDir) : join(dirname(testFile), '__cassettes__');
+  return join(cassetteDir, `${fileSlug}.${slugify(testName)}-${nameHash}.cassette.json`);
+}
+
+/**
+ * Hash of everything that should force a re-record when it changes:
+ * the model, the resolved system prompt and the tool definitions.
+ */
+export function cassetteFingerprint(model: string, systemPrompt: string, tools: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ model, systemPrompt, tools }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Find the first path at which two JSON values differ, or null if they are equal.
+ */
+function firstDifference(recorded: unknown, actual: unknown, path: string): string | null {
+  if (recorded === actual) return null;
+
+  if (
+    typeof recorded !== 'object' || recorded === null ||
+    typeof actual !== 'object' || actual === null ||
+    Array.isArray(recorded) !== Array.isArray(actual)
+  ) {
+    return `${path}: recorded ${preview(recorded)}, got ${preview(actual)}`;
+  }
+
+  if (Array.isArray(recorded) && Array.isArray(actual)) {
+    const len = Math.max(recorded.length, actual.length);
+    for (let i = 0; i < len; i++) {
+      const diff = firstDifference(recorded[i], actual[i], `${path}[${i}]`);
+      if (diff) return diff;
+    }
+    return null;
+  }
+
+  const rec = recorded as Record<string, unknown>;
+  const act = actual as Record<string, unknown>;
+  const keys = new Set([...Object.keys(rec), ...Object.keys(act)]);
+  for (const key of keys) {
+    const diff = firstDifference(rec[key], act[key], `${path}.${key}`);
+    if (diff) return diff;
+  }
+  return null;
+}
+
+function preview(value: unknown): string {
+  if (value === undefined) return '(nothing)';
+  const str = JSON.stringify(value);
+  return str.length > 80 ? `${str.slice(0, 79)}…` : str;
+}
+
+/**
+ * Records LLM request/response pairs for one test, or replays them in order.
+ * In replay mode every request must match the recorded one exactly;
+ * any divergence throws a CassetteError naming the first differing field.
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly path: string;
+  private readonly meta: CassetteMeta;
+  private interactions: CassetteInteraction[] = [];
+  private cursor = 0;
+
+  private constructor(mode: CassetteMode, path: string, meta: CassetteMeta) {
+    this.mode = mode;
+    this.path = path;
+    this.meta = meta;
+  }
+
+  /**
+   * Open a cassette for recording or replay. In replay mode the file must
+   * exist and its fingerprint must match the current model, prompt and tools.
+   */
+  static open(
+    mode: CassetteMode,
+    path: string,
+    meta: CassetteMeta,
+  ): Cassette {
+    const cassette = new Cassette(mode, path, meta);
+
+    if (mode === 'record') {
+      return cassette;
+    }
+
+    if (!existsSync(path)) {
+      throw new CassetteError(path, 'No cassette recorded for this test. Run with --record first.');
+    }
+
+    let file: CassetteFile;
+    try {
+      file = JSON.parse(readFileSync(path, 'utf-8')) as CassetteFile;
+    } catch (err) {
+      throw new CassetteError(path, `Invalid cassette file: ${(err as Error).message}`);
+    }
+
+    if (file.version !== CASSETTE_VERSION) {
+      throw new CassetteError(path, `Unsupported cassette version ${file.version}. Re-record with --record.`);
+    }
+    if (file.model !== meta.model) {
+      throw new CassetteError(
+        path,
+        `Cassette was recorded with model "${file.model}" but the test now uses "${meta.model}". Re-record with --record.`,
+      );
+    }
+    if (file.fingerprint !== meta.fingerprint) {
+      throw new CassetteError(path, 'System prompt or tools changed since the cassette was recorded. Re-record with --record.');
+    }
+
+    cassette.interactions = file.interactions ?? [];
+    return cassette;
+  }
+
+  /**
+   * Store a live request/response pair.
+   */
+  record(request: ChatCompletionRequest, response: ChatCompletionResponse): void {
+    this.interactions.push({
+      request: JSON.parse(JSON.stringify(request)) as ChatCompletionRequest,
+      response: structuredClone(response),
+    });
+  }
+
+  /**
+   * Return the recorded response for the next request, verifying the request
+   * is identical to what was sent when the cassette was recorded.
+   */
+  replay(request: ChatCompletionRequest): ChatCompletionResponse {
+    const index = this.cursor;
+    const interaction = this.interactions[index];
+    if (!interaction) {
+      throw new CassetteError(
+        this.path,
+        `Conversation diverged: LLM call #${index + 1} was not recorded (cassette has ${this.interactions.length} call(s)). Re-record with --record.`,
+      );
+    }
+
+    // Round-trip through JSON so undefined fields compare the way they were stored
+    const actual = JSON.parse(JSON.stringify(request)) as unknown;
+    const diff = firstDifference(interaction.request, actual, 'request');
+    if (diff) {
+      throw new CassetteError(this.path, `Conversation diverged at LLM call #${index + 1}: ${diff}`);
+    }
+
+    this.cursor++;
+    return structuredClone(interaction.response);
+  }
+
+  /**
+   * Finish the cassette: write it in record mode, or verify that every
+   * recorded call was replayed in replay mode.
+   */
+  finish(): void {
+    if (this.mode === 'replay') {
+      if (this.cursor < this.interactions.length) {
+        throw new CassetteError(
+          this.path,
+          `Conversation diverged: only ${this.cursor} of ${this.interactions.length} recorded LLM call(s) were made. Re-record with --record.`,
+        );
+      }
+      return;
+    }
+
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      test: this.meta.test,
+      model: this.meta.model,
+      fingerprint: this.meta.fingerprint,
+      recorded_at: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n');
+  }
+}
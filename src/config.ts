@@ -1,8 +1,9 @@
 import { readFileSync, existsSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { parse as parseYaml } from 'yaml';
-import type { Config, CLIOptions, PromptmanConfig } from './types.js';
+import type { Config, CLIOptions, MatrixEntry, PromptmanConfig, ProviderConfig, ProviderType } from './types.js';
 import { resolveEnvVars, deepMerge } from './utils.js';
+import { ANTHROPIC_BASE_URL } from './anthropic.js';
 
 const CONFIG_FILENAMES = [
   'promptman-test.config.yaml',
@@ -19,9 +20,23 @@ const DEFAULT_CONFIG: Config = {
     timeout: 30000,
     max_turns: 20,
     verbose: false,
+    concurrency: 1,
+    validate_args: true,
   },
 };
 
+const DEFAULT_BASE_URLS: Record<ProviderType, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: ANTHROPIC_BASE_URL,
+};
+
+function apiKeyFromEnv(type: ProviderType): string | undefined {
+  if (type === 'anthropic') {
+    return process.env.ANTHROPIC_API_KEY ?? process.env.LLM_API_KEY;
+  }
+  return process.env.OPENAI_API_KEY ?? process.env.LLM_API_KEY;
+}
+
 function findConfigFile(dir: string): string | null {
   for (const name of CONFIG_FILENAMES) {
     const p = resolve(dir, name);
@@ -46,6 +61,16 @@ function resolveConfigEnvVars(config: Partial<Config>): Partial<Config> {
   if (config.provider?.base_url) {
     config.provider.base_url = resolveEnvVars(config.provider.base_url);
   }
+  if (config.judge?.api_key) {
+    config.judge.api_key = resolveEnvVars(config.judge.api_key);
+  }
+  if (config.judge?.base_url) {
+    config.judge.base_url = resolveEnvVars(config.judge.base_url);
+  }
+  for (const entry of config.matrix ?? []) {
+    if (entry.api_key) entry.api_key = resolveEnvVars(entry.api_key);
+    if (entry.base_url) entry.base_url = resolveEnvVars(entry.base_url);
+  }
   if (config.promptman?.api_key) {
     config.promptman.api_key = resolveEnvVars(config.promptman.api_key);
   }
@@ -55,6 +80,34 @@ function resolveConfigEnvVars(config: Partial<Config>): Partial<Config> {
   return config;
 }
 
+/**
+ * Parse a `--models` list. Entries may be prefixed with a provider type
+ * (`anthropic:claude-sonnet-4`); `claude-*` models default to Anthropic.
+ */
+export function parseModelList(models: string): MatrixEntry[] {
+  return models
+    .split(',')
+    .map(m => m.trim())
+    .filter(Boolean)
+    .map(m => {
+      const prefixed = /^(openai|anthropic):(.+)$/.exec(m);
+      if (prefixed) {
+        return { type: prefixed[1] as ProviderType, model: prefixed[2]! };
+      }
+      return m.startsWith('claude-') ? { type: 'anthropic', model: m } : { model: m };
+    });
+}
+
+/**
+ * Path of the config file in effect: `--config` if given, otherwise the
+ * first default config file found in the working directory.
+ */
+export function resolveConfigPath(cliOptions: CLIOptions): string | null {
+  return cliOptions.config
+    ? resolve(cliOptions.config)
+    : findConfigFile(process.cwd());
+}
+
 /**
  * Load config from file + CLI options + env vars, merged with defaults.
  */
@@ -63,15 +116,24 @@ export function loadConfig(cliOptions: CLIOptions): Config {
   let config: Config = structuredClone(DEFAULT_CONFIG);
 
   // 2. Load config file
-  const configPath = cliOptions.config
-    ? resolve(cliOptions.config)
-    : findConfigFile(process.cwd());
+  const configPath = resolveConfigPath(cliOptions);
 
   if (configPath && existsSync(configPath)) {
     const fileConfig = resolveConfigEnvVars(loadConfigFile(configPath));
     // Merge provider
     if (fileConfig.provider) {
       Object.assign(config.provider, fileConfig.provider);
+      if (fileConfig.provider.type && !fileConfig.provider.base_url) {
+        config.provider.base_url = DEFAULT_BASE_URLS[fileConfig.provider.type];
+      }
+    }
+    // Merge judge
+    if (fileConfig.judge) {
+      config.judge = { ...fileConfig.judge };
+    }
+    // Matrix entries replace each other rather than merge
+    if (fileConfig.matrix) {
+      config.matrix = fileConfig.matrix;
     }
     // Merge settings
     if (fileConfig.settings) {
@@ -89,10 +151,23 @@ export function loadConfig(cliOptions: CLIOptions): Config {
   if (cliOptions.timeout) config.settings.timeout = cliOptions.timeout;
   if (cliOptions.maxTurns) config.settings.max_turns = cliOptions.maxTurns;
   if (cliOptions.verbose) config.settings.verbose = true;
+  if (cliOptions.concurrency) config.settings.concurrency = cliOptions.concurrency;
+  if (cliOptions.repeat) config.settings.repeat = cliOptions.repeat;
+  if (cliOptions.minPassRate !== undefined) config.settings.min_pass_rate = cliOptions.minPassRate;
+  if (cliOptions.judgeModel) config.judge = { ...config.judge, model: cliOptions.judgeModel };
+  if (cliOptions.cassetteDir) config.settings.cassette_dir = cliOptions.cassetteDir;
+  if (cliOptions.retries !== undefined) config.settings.retries = cliOptions.retries;
+  if (cliOptions.stream) config.settings.stream = true;
+  if (cliOptions.models) config.matrix = parseModelList(cliOptions.models);
+  if (cliOptions.maxCost !== undefined) config.settings.budget = { ...config.settings.budget, max_cost: cliOptions.maxCost };
+  if (cliOptions.maxTokens !== undefined) config.settings.budget = { ...config.settings.budget, max_tokens: cliOptions.maxTokens };
+  if (cliOptions.maxTokenGrowth !== undefined) {
+    config.settings.regression = { ...config.settings.regression, tokens: cliOptions.maxTokenGrowth };
+  }
 
   // 4. Resolve API key from env if not set
   if (!config.provider.api_key) {
-    config.provider.api_key = process.env.OPENAI_API_KEY ?? process.env.LLM_API_KEY;
+    config.provider.api_key = apiKeyFromEnv(config.provider.type ?? 'openai');
   }
 
   // 5. Resolve promptman key from env
@@ -109,3 +184,26 @@ export function loadConfig(cliOptions: CLIOptions): Config {
 
   return config;
 }
+
+/**
+ * Resolve the effective provider for a test. A test that switches provider
+ * `type` does not inherit the global base URL or API key, since those belong
+ * to a different API; it falls back to that type's defaults instead.
+ */
+export function resolveTestProvider(config: Config, testProvider?: Partial<ProviderConfig>): ProviderConfig {
+  if (!testProvider) return config.provider;
+
+  const globalType = config.provider.type ?? 'openai';
+  const type = testProvider.type ?? globalType;
+  if (type === globalType) {
+    return { ...config.provider, ...testProvider };
+  }
+
+  return {
+    ...testProvider,
+    type,
+    base_url: testProvider.base_url ?? DEFAULT_BASE_URLS[type],
+    model: testProvider.model ?? config.provider.model,
+    api_key: testProvider.api_key ?? apiKeyFromEnv(type),
+  };
+}
@@ -1,3 +1,4 @@
+import { readFileSync } from 'node:fs';
 import type {
   Config,
   TestDefinition,
@@ -6,79 +7,23 @@ import type {
   StepResult,
   ChatMessage,
   ToolCall,
-  ChatCompletionResponse,
-  ToolDefinition,
   AssertionResult,
   SystemPromptSource,
   OnProgressCallback,
   ProgressEvent,
+  CassetteMode,
+  RetryInfo,
+  TurnTiming,
 } from './types.js';
-import { evaluateStepAssertions, evaluateGlobalAssertions } from './assertions.js';
-import { resolveMocks } from './mocks.js';
+import { evaluateStepAssertions, evaluateGlobalAssertions, evaluateToolArgs } from './assertions.js';
+import { resolveMocks, MockSession } from './mocks.js';
 import { fetchPrompt } from './promptman.js';
+import { callLLM } from './llm.js';
+import { evaluateJudgeAssertion } from './judge.js';
+import { Cassette, cassettePath, cassetteFingerprint } from './cassette.js';
 import { estimateTokens, estimateCost } from './utils.js';
-
-// ── OpenAI API ──────────────────────────────────────────────────────────────
-
-function buildToolsPayload(tools: ToolDefinition[]): Array<{
-  type: 'function';
-  function: { name: string; description: string; parameters: unknown };
-}> {
-  return tools.map(t => ({
-    type: 'function' as const,
-    function: {
-      name: t.name,
-      description: t.description,
-      parameters: t.parameters,
-    },
-  }));
-}
-
-async function callLLM(
-  messages: ChatMessage[],
-  tools: ToolDefinition[],
-  config: Config,
-  testProvider?: Partial<Config['provider']>,
-): Promise<ChatCompletionResponse> {
-  const baseUrl = testProvider?.base_url ?? config.provider.base_url;
-  const model = testProvider?.model ?? config.provider.model;
-  const apiKey = testProvider?.api_key ?? config.provider.api_key;
-
-  const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
-
-  const body: Record<string, unknown> = {
-    model,
-    messages,
-  };
-
-  if (tools.length > 0) {
-    body.tools = buildToolsPayload(tools);
-  }
-
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
-
-  if (apiKey) {
-    headers['Authorization'] = `Bearer ${apiKey}`;
-  }
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(body),
-    signal: AbortSignal.timeout(config.settings.timeout),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text().catch(() => '');
-    throw new Error(
-      `LLM API error: ${response.status} ${response.statusText}${errorBody ? ` — ${errorBody.slice(0, 500)}` : ''}`,
-    );
-  }
-
-  return (await response.json()) as ChatCompletionResponse;
-}
+import { renderTemplate } from './cases.js';
+import { evaluateCaptures, applyCaptures, captureNames } from './capture.js';
 
 // ── System Prompt Resolution ────────────────────────────────────────────────
 
@@ -97,6 +42,10 @@ async function resolveSystemPrompt(
     return fetchPrompt(source.promptman, config.promptman);
   }
 
+  if ('file' in source) {
+    return readFileSync(source.file, 'utf-8');
+  }
+
   throw new Error('Invalid system_prompt format');
 }
 
@@ -108,6 +57,14 @@ async function resolveSystemPrompt(
  */
 export interface ExecuteOptions {
   onProgress?: OnProgressCallback;
+  /** Record LLM traffic to, or replay it from, a per-test cassette file. */
+  cassette?: { mode: CassetteMode; dir?: string };
+  /** Aborts in-flight LLM calls, e.g. when another test fails under --bail. */
+  signal?: AbortSignal;
+  /** Matrix entry label; tags results and events and keeps cassettes per model. */
+  variant?: string;
+  /** Called with the tokens and estimated cost added since the last call (judge included). */
+  onUsage?: (usage: { tokens: number; cost: number }) => void;
 }
 
 export async function executeTest(
@@ -123,15 +80,56 @@ export async function executeTest(
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
   let totalTurns = 0;
+  let judgeTokens = 0;
+  let judgeCost = 0;
+  let retries = 0;
+  let systemPrompt: string | undefined;
+  const variant = options?.variant;
+  const model = test.provider?.model ?? config.provider.model;
 
   try {
-    const emit = (event: Omit<ProgressEvent, 'testName'>) =>
-      options?.onProgress?.({ ...event, testName: test.name } as ProgressEvent);
+    const emit = (event: Omit<ProgressEvent, 'testName' | 'file'>) =>
+      options?.onProgress?.({ ...event, testName: test.name, file: filePath, variant } as ProgressEvent);
+
+    emit({ type: 'test:start' });
 
-    emit({ type: 'test:start', file: filePath });
+    let currentStep = 0;
+    const onRetry = (retry: RetryInfo) => {
+      retries++;
+      emit({ type: 'step:retry', stepIndex: currentStep, retry });
+    };
 
     // Resolve system prompt
-    const systemPrompt = await resolveSystemPrompt(test.system_prompt, config);
+    systemPrompt = await resolveSystemPrompt(test.system_prompt, config);
+    // Inline prompts are templated at parse time; prompt files are read here
+    if (test.case && typeof test.system_prompt !== 'string') {
+      systemPrompt = renderTemplate(systemPrompt, test.case.vars);
+    }
+
+    const cassette = options?.cassette
+      ? Cassette.open(options.cassette.mode, cassettePath(filePath, variant ? `${test.name} [${variant}]` : test.name, options.cassette.dir), {
+        test: test.name,
+        model,
+        fingerprint: cassetteFingerprint(model, systemPrompt, test.tools ?? []),
+      })
+      : undefined;
+
+    // Usage is reported as it accrues so run-wide budgets can stop a runaway test
+    let reportedTokens = 0;
+    let reportedCost = 0;
+    const reportUsage = () => {
+      const tokens = totalInputTokens + totalOutputTokens + judgeTokens;
+      const cost = estimateCost(model, totalInputTokens, totalOutputTokens) + judgeCost;
+      if (tokens === reportedTokens && cost === reportedCost) return;
+      options?.onUsage?.({ tokens: tokens - reportedTokens, cost: cost - reportedCost });
+      reportedTokens = tokens;
+      reportedCost = cost;
+    };
+
+    const mocks = new MockSession();
+    // Values from `capture:` blocks, filled into later steps
+    const captureVars = captureNames(test.steps);
+    const captured: Record<string, unknown> = {};
 
     // Build initial messages
     const messages: ChatMessage[] = [
@@ -140,13 +138,19 @@ export async function executeTest(
 
     // Process each step
     for (let stepIdx = 0; stepIdx < test.steps.length; stepIdx++) {
-      const step = test.steps[stepIdx]!;
+      const step = captureVars.size > 0
+        ? applyCaptures(test.steps[stepIdx]!, captured, captureVars)
+        : test.steps[stepIdx]!;
+      currentStep = stepIdx;
+      mocks.startStep();
 
       // If this is a global assertion step, evaluate it at the end
       if (step.assert && !step.user && !step.expect) {
         continue; // Will be processed after all steps
       }
 
+      const stepStart = messages.length;
+
       // Add user message if present
       if (step.user) {
         messages.push({ role: 'user', content: step.user });
@@ -155,6 +159,8 @@ export async function executeTest(
       emit({ type: 'step:start', stepIndex: stepIdx, userMessage: step.user });
 
       const stepToolCalls: ToolCall[] = [];
+      const stepToolResults = new Map<string, string>();
+      const timings: TurnTiming[] = [];
       let assistantResponse: string | undefined;
       let turnCount = 0;
 
@@ -163,9 +169,16 @@ export async function executeTest(
         totalTurns++;
         turnCount++;
 
+        options?.signal?.throwIfAborted();
         emit({ type: 'step:llm_call', stepIndex: stepIdx });
 
-        const completion = await callLLM(messages, test.tools ?? [], config, test.provider);
+        const completion = await callLLM(messages, test.tools ?? [], config, {
+          provider: test.provider,
+          cassette,
+          signal: options?.signal,
+          onRetry,
+          onTiming: (timing) => timings.push(timing),
+        });
 
         // Track tokens
         if (completion.usage) {
@@ -176,6 +189,7 @@ export async function executeTest(
           const msgText = messages.map(m => m.content ?? '').join(' ');
           totalInputTokens += estimateTokens(msgText);
         }
+        reportUsage();
 
         const choice = completion.choices[0];
         if (!choice) {
@@ -207,10 +221,11 @@ export async function executeTest(
           }
 
           // Resolve mocks and add tool results
-          const mockResults = resolveMocks(msg.tool_calls, step.mock);
+          const mockResults = await resolveMocks(msg.tool_calls, step.mock, mocks);
 
           for (const toolCall of msg.tool_calls) {
             const mockContent = mockResults.get(toolCall.id) ?? JSON.stringify({ result: 'ok' });
+            stepToolResults.set(toolCall.id, mockContent);
             messages.push({
               role: 'tool',
               content: mockContent,
@@ -240,6 +255,37 @@ export async function executeTest(
       // Evaluate step assertions
       const assertions = evaluateStepAssertions(step.expect, stepToolCalls, assistantResponse);
 
+      if (step.expect?.valid_args ?? config.settings.validate_args ?? true) {
+        assertions.push(...evaluateToolArgs(stepToolCalls, test.tools ?? []));
+      }
+
+      // Rubric assertions are graded by the judge model
+      const judge = step.expect?.response?.judge;
+      if (judge && assistantResponse) {
+        emit({ type: 'step:judge', stepIndex: stepIdx });
+        const outcome = await evaluateJudgeAssertion(judge, step.user, assistantResponse, config, {
+          cassette,
+          signal: options?.signal,
+          onRetry,
+        });
+        assertions.push(outcome.result);
+        judgeTokens += outcome.inputTokens + outcome.outputTokens;
+        judgeCost += estimateCost(outcome.model, outcome.inputTokens, outcome.outputTokens);
+        reportUsage();
+      }
+
+      let stepCaptures: Record<string, unknown> | undefined;
+      if (step.capture) {
+        const { values, failures } = evaluateCaptures(step.capture, {
+          toolCalls: stepToolCalls,
+          toolResults: stepToolResults,
+          response: assistantResponse,
+        });
+        Object.assign(captured, values);
+        assertions.push(...failures);
+        stepCaptures = values;
+      }
+
       const stepResult: StepResult = {
         stepIndex: stepIdx,
         userMessage: step.user,
@@ -247,6 +293,9 @@ export async function executeTest(
         toolCalls: stepToolCalls,
         assistantResponse,
         passed: assertions.every(a => a.passed),
+        ...(timings.length > 0 ? { timings } : {}),
+        ...(stepCaptures ? { captures: stepCaptures } : {}),
+        messages: messages.slice(stepStart),
       };
 
       stepResults.push(stepResult);
@@ -266,30 +315,43 @@ export async function executeTest(
       }
     }
 
+    cassette?.finish();
+    reportUsage();
+
     const totalTokens = totalInputTokens + totalOutputTokens;
-    const model = test.provider?.model ?? config.provider.model;
     const cost = estimateCost(model, totalInputTokens, totalOutputTokens);
 
     return {
       name: test.name,
       file: filePath,
+      ...(variant ? { variant } : {}),
       passed: stepResults.every(s => s.passed) && globalAssertions.every(a => a.passed),
+      systemPrompt,
       steps: stepResults,
       globalAssertions,
       totalTokens,
       estimatedCost: cost,
       durationMs: Date.now() - startTime,
+      turns: totalTurns,
+      ...(judgeTokens > 0 ? { judgeTokens, judgeCost } : {}),
+      ...(retries > 0 ? { retries } : {}),
     };
   } catch (error) {
     return {
       name: test.name,
       file: filePath,
+      ...(variant ? { variant } : {}),
       passed: false,
+      ...(systemPrompt !== undefined ? { systemPrompt } : {}),
       steps: stepResults,
       globalAssertions,
       totalTokens: totalInputTokens + totalOutputTokens,
-      estimatedCost: 0,
+      // Tokens spent before the error still cost money, and count toward budgets
+      estimatedCost: estimateCost(model, totalInputTokens, totalOutputTokens),
       durationMs: Date.now() - startTime,
+      turns: totalTurns,
+      ...(judgeTokens > 0 ? { judgeTokens, judgeCost } : {}),
+      ...(retries > 0 ? { retries } : {}),
       error: (error as Error).message,
     };
   }
@@ -0,0 +1,239 @@
+import { readFileSync, existsSync } from 'node:fs';
+import { dirname, resolve, relative } from 'node:path';
+import { parse as parseYaml, parseAllDocuments } from 'yaml';
+
+// ── Shared Fixtures ─────────────────────────────────────────────────────────
+
+/** A problem in a fixture, reported against the file that contains it. */
+export class FixtureError extends Error {
+  constructor(readonly file: string, message: string) {
+    super(message);
+    this.name = 'FixtureError';
+  }
+}
+
+/** The file each mapping or list was written in, for error messages and relative paths. */
+const sources = new WeakMap<object, string>();
+
+interface LoadContext {
+  /** Files and `$ref` targets being resolved, outermost first, to detect cycles */
+  stack: string[];
+  /** Parsed (unresolved) documents by absolute path */
+  documents: Map<string, unknown>;
+  fixtures: Set<string>;
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function displayPath(file: string): string {
+  return relative(process.cwd(), file) || file;
+}
+
+function readDocument(file: string, ctx: LoadContext): unknown {
+  const cached = ctx.documents.get(file);
+  if (cached !== undefined || ctx.documents.has(file)) return cached;
+
+  const content = readFileSync(file, 'utf-8');
+  let doc: unknown = content;
+  // The test file is always YAML; fixtures in other formats (e.g. a prompt in .md) are text
+  if (file === ctx.stack[0] || /\.(ya?ml|json)$/i.test(file)) {
+    try {
+      doc = parseYaml(content);
+    } catch (err) {
+      throw new FixtureError(file, `Invalid YAML: ${(err as Error).message}`);
+    }
+  }
+  ctx.documents.set(file, doc);
+  return doc;
+}
+
+/** Resolve a fixture path against the file that mentions it. */
+function fixturePath(ref: unknown, key: string, from: string): string {
+  if (typeof ref !== 'string' || ref === '') {
+    throw new FixtureError(from, `"${key}" must be a file path`);
+  }
+  const file = resolve(dirname(from), ref);
+  if (!existsSync(file)) {
+    throw new FixtureError(from, `${key} file not found: ${ref}`);
+  }
+  return file;
+}
+
+function enter<T>(target: string, from: string, ctx: LoadContext, fn: () => T): T {
+  if (ctx.stack.includes(target)) {
+    const cycle = [...ctx.stack.slice(ctx.stack.indexOf(target)), target].map(t => displayPath(t));
+    throw new FixtureError(from, `Circular include: ${cycle.join(' → ')}`);
+  }
+  ctx.stack.push(target);
+  try {
+    return fn();
+  } finally {
+    ctx.stack.pop();
+  }
+}
+
+/**
+ * Merge `over` onto `base`: mappings merge key by key, anything else
+ * (lists included) in `over` replaces what `base` had.
+ */
+export function mergeDocuments(base: unknown, over: unknown, file: string): unknown {
+  if (!isMapping(base) || !isMapping(over)) return over;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(over)) {
+    merged[key] = key in base ? mergeDocuments(base[key], value, file) : value;
+  }
+  sources.set(merged, file);
+  return merged;
+}
+
+/** Follow a JSON Pointer (`/tools/0`) into a parsed document. */
+function followPointer(doc: unknown, pointer: string, file: string, from: string): unknown {
+  if (pointer === '' || pointer === '/') return doc;
+  if (!pointer.startsWith('/')) {
+    throw new FixtureError(from, `$ref pointer must start with "/", got: #${pointer}`);
+  }
+  let node = doc;
+  for (const raw of pointer.slice(1).split('/')) {
+    const key = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(node) && /^\d+$/.test(key) && Number(key) < node.length) {
+      node = node[Number(key)];
+    } else if (isMapping(node) && key in node) {
+      node = node[key];
+    } else {
+      throw new FixtureError(from, `$ref target not found: ${displayPath(file)}#${pointer}`);
+    }
+  }
+  return node;
+}
+
+/** The value an `$include` or `$ref` mapping stands for. */
+function loadDirective(node: Record<string, unknown>, file: string, ctx: LoadContext): unknown {
+  if ('$include' in node && '$ref' in node) {
+    throw new FixtureError(file, 'Use either "$include" or "$ref", not both');
+  }
+
+  if ('$include' in node) {
+    const target = fixturePath(node.$include, '$include', file);
+    ctx.fixtures.add(target);
+    return enter(target, file, ctx, () => loadFile(target, ctx));
+  }
+
+  const ref = node.$ref;
+  if (typeof ref !== 'string' || !ref.includes('#')) {
+    throw new FixtureError(file, `"$ref" must look like "file.yaml#/path" or "#/path", got: ${String(ref)}`);
+  }
+  const hash = ref.indexOf('#');
+  const target = hash === 0 ? file : fixturePath(ref.slice(0, hash), '$ref', file);
+  const pointer = ref.slice(hash + 1);
+  if (target !== file) ctx.fixtures.add(target);
+
+  return enter(`${target}#${pointer}`, file, ctx, () =>
+    resolveNode(followPointer(readDocument(target, ctx), pointer, target, file), target, ctx),
+  );
+}
+
+function isDirective(node: unknown): node is Record<string, unknown> {
+  return isMapping(node) && ('$include' in node || '$ref' in node);
+}
+
+/** Replace `$include` / `$ref` directives anywhere below `node`. */
+function resolveNode(node: unknown, file: string, ctx: LoadContext): unknown {
+  if (Array.isArray(node)) {
+    const list: unknown[] = [];
+    for (const item of node) {
+      const value = resolveNode(item, file, ctx);
+      // A bare directive that yields a list is spliced in, e.g. shared steps
+      if (isDirective(item) && Object.keys(item).length === 1 && Array.isArray(value)) {
+        list.push(...value);
+      } else {
+        list.push(value);
+      }
+    }
+    sources.set(list, file);
+    return list;
+  }
+
+  if (!isMapping(node)) return node;
+
+  if (isDirective(node)) {
+    const included = loadDirective(node, file, ctx);
+    const rest = Object.entries(node).filter(([key]) => key !== '$include' && key !== '$ref');
+    if (rest.length === 0) return included;
+    // Keys next to the directive override what it brought in
+    if (!isMapping(included)) {
+      throw new FixtureError(file, 'Keys next to "$include" or "$ref" need the included value to be a mapping');
+    }
+    return mergeDocuments(included, resolveNode(Object.fromEntries(rest), file, ctx), file);
+  }
+
+  const mapping: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    mapping[key] = resolveNode(value, file, ctx);
+  }
+  sources.set(mapping, file);
+  return mapping;
+}
+
+/** Load a file with its directives resolved and its `extends` bases merged in. */
+function loadFile(file: string, ctx: LoadContext): unknown {
+  const doc = readDocument(file, ctx);
+  if (!isMapping(doc) || doc.extends === undefined) return resolveNode(doc, file, ctx);
+
+  const { extends: bases, ...own } = doc;
+  const refs = Array.isArray(bases) ? bases : [bases];
+  let merged: unknown = {};
+  for (const ref of refs) {
+    const target = fixturePath(ref, 'extends', file);
+    ctx.fixtures.add(target);
+    const base = enter(target, file, ctx, () => loadFile(target, ctx));
+    if (!isMapping(base)) {
+      throw new FixtureError(target, 'A file used with "extends" must be a YAML mapping');
+    }
+    merged = mergeDocuments(merged, base, target);
+  }
+  return mergeDocuments(merged, resolveNode(own, file, ctx), file);
+}
+
+/**
+ * Read a test file with shared fixtures applied: `extends:` bases are merged
+ * under the file's own keys, and `$include: path` / `$ref: path#/pointer`
+ * values are replaced by what they point at. Paths resolve relative to the
+ * file that names them. A file may hold several `---`-separated documents;
+ * each is loaded on its own (`#/…` refers to the same document). Returns the
+ * documents and every fixture file used.
+ */
+export function loadTestDocuments(file: string): { docs: unknown[]; fixtures: string[] } {
+  const parsed: unknown[] = [];
+  for (const document of parseAllDocuments(readFileSync(file, 'utf-8'))) {
+    const [error] = document.errors;
+    if (error) throw new FixtureError(file, `Invalid YAML: ${error.message}`);
+    const value: unknown = document.toJS();
+    if (value !== null && value !== undefined) parsed.push(value);
+  }
+  // An empty file is still one (invalid) document
+  if (parsed.length === 0) parsed.push(null);
+
+  const fixtures = new Set<string>();
+  const docs = parsed.map(doc => {
+    const ctx: LoadContext = { stack: [file], documents: new Map([[file, doc]]), fixtures };
+    return loadFile(file, ctx);
+  });
+  return { docs, fixtures: [...fixtures] };
+}
+
+/**
+ * The file that the value at `path` inside a loaded document was written in:
+ * the closest enclosing mapping or list with a known source, else `fallback`.
+ */
+export function sourceOf(doc: unknown, path: Array<string | number>, fallback: string): string {
+  let file = (typeof doc === 'object' && doc !== null && sources.get(doc)) || fallback;
+  let node = doc;
+  for (const key of path) {
+    if (typeof node !== 'object' || node === null) break;
+    node = (node as Record<string | number, unknown>)[key];
+    if (typeof node === 'object' && node !== null) file = sources.get(node) ?? file;
+  }
+  return file;
+}
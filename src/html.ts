@@ -0,0 +1,251 @@
+import { relative } from 'node:path';
+import type { RunResult, TestResult, StepResult, ChatMessage, AssertionResult, FileSummary } from './types.js';
+import { formatCost, formatDuration } from './utils.js';
+import { summarizeFiles } from './reporter.js';
+
+// ── HTML Reporter ───────────────────────────────────────────────────────────
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Pretty-print JSON text; anything that doesn't parse is shown as-is. */
+function prettyJSON(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+function renderAssertions(assertions: AssertionResult[]): string {
+  const failed = assertions.filter(a => !a.passed);
+  const passed = assertions.filter(a => a.passed);
+  const parts = failed.map(a => `<div class="assertion fail">✗ ${escapeHtml(a.message)}</div>`);
+  if (passed.length > 0) {
+    parts.push(
+      `<details class="passed"><summary>${passed.length} passed assertion(s)</summary>`
+      + passed.map(a => `<div class="assertion pass">✓ ${escapeHtml(a.message)}</div>`).join('')
+      + '</details>',
+    );
+  }
+  return parts.join('\n');
+}
+
+function renderMessage(msg: ChatMessage, toolNames: Map<string, string>): string {
+  switch (msg.role) {
+    case 'user':
+      return `<div class="msg user"><div class="role">User</div><div class="text">${escapeHtml(msg.content ?? '')}</div></div>`;
+    case 'tool': {
+      const name = toolNames.get(msg.tool_call_id ?? '') ?? 'tool';
+      return `<div class="msg tool"><div class="role">Mock result · ${escapeHtml(name)}</div><pre>${escapeHtml(prettyJSON(msg.content ?? ''))}</pre></div>`;
+    }
+    case 'assistant': {
+      const parts: string[] = [];
+      if (msg.content) parts.push(`<div class="text">${escapeHtml(msg.content)}</div>`);
+      for (const call of msg.tool_calls ?? []) {
+        parts.push(`<div class="call"><span class="name">${escapeHtml(call.function.name)}</span><pre>${escapeHtml(prettyJSON(call.function.arguments))}</pre></div>`);
+      }
+      return `<div class="msg assistant"><div class="role">Assistant</div>${parts.join('')}</div>`;
+    }
+    default:
+      return `<div class="msg system"><div class="role">System</div><div class="text">${escapeHtml(msg.content ?? '')}</div></div>`;
+  }
+}
+
+/**
+ * Messages for a step. Results from older runs may lack `messages`, so fall
+ * back to what the step recorded directly.
+ */
+function stepMessages(step: StepResult): ChatMessage[] {
+  if (step.messages) return step.messages;
+  const messages: ChatMessage[] = [];
+  if (step.userMessage) messages.push({ role: 'user', content: step.userMessage });
+  if (step.toolCalls.length > 0) messages.push({ role: 'assistant', content: null, tool_calls: step.toolCalls });
+  if (step.assistantResponse) messages.push({ role: 'assistant', content: step.assistantResponse });
+  return messages;
+}
+
+function renderStep(step: StepResult, toolNames: Map<string, string>): string {
+  const messages = stepMessages(step);
+  for (const msg of messages) {
+    for (const call of msg.tool_calls ?? []) toolNames.set(call.id, call.function.name);
+  }
+  const status = step.passed ? 'pass' : 'fail';
+  const captures = Object.entries(step.captures ?? {}).map(([name, value]) =>
+    `<div class="capture">${escapeHtml(name)} = ${escapeHtml(typeof value === 'string' ? value : JSON.stringify(value))}</div>`,
+  );
+  return [
+    `<section class="step ${status}">`,
+    `<h4>Step ${step.stepIndex + 1} <span class="badge ${status}">${step.passed ? 'pass' : 'fail'}</span></h4>`,
+    ...messages.map(m => renderMessage(m, toolNames)),
+    ...captures,
+    renderAssertions(step.assertions),
+    '</section>',
+  ].join('\n');
+}
+
+function renderTest(test: TestResult): string {
+  const status = test.skipped ? 'skip' : test.error ? 'error' : test.passed ? 'pass' : 'fail';
+  const name = test.variant ? `${test.name} [${test.variant}]` : test.name;
+  const file = relative(process.cwd(), test.file) || test.file;
+  const meta = [
+    formatDuration(test.durationMs),
+    `${test.totalTokens.toLocaleString()} tokens`,
+    formatCost(test.estimatedCost),
+    ...(test.retries ? [`${test.retries} retries`] : []),
+    ...(test.repeat ? [`${test.repeat.passedRuns}/${test.repeat.runs} runs passed${test.repeat.flaky ? ' (flaky)' : ''}`] : []),
+  ];
+  const toolNames = new Map<string, string>();
+
+  return [
+    `<details class="test ${status}" data-status="${status}" data-name="${escapeHtml(`${name} ${file}`.toLowerCase())}"${status === 'fail' || status === 'error' ? ' open' : ''}>`,
+    `<summary><span class="badge ${status}">${status}</span> <span class="test-name">${escapeHtml(name)}</span>`
+      + ` <span class="meta">${escapeHtml(meta.join(' · '))}</span></summary>`,
+    test.error ? `<div class="assertion fail">Error: ${escapeHtml(test.error)}</div>` : '',
+    test.systemPrompt !== undefined
+      ? `<details class="msg system"><summary class="role">System prompt</summary><div class="text">${escapeHtml(test.systemPrompt)}</div></details>`
+      : '',
+    ...test.steps.map(step => renderStep(step, toolNames)),
+    test.globalAssertions.length > 0
+      ? `<section class="step"><h4>Global assertions</h4>${renderAssertions(test.globalAssertions)}</section>`
+      : '',
+    '</details>',
+  ].filter(Boolean).join('\n');
+}
+
+/** A test file's tests under a header with the file's totals. */
+function renderFile(summary: FileSummary, tests: TestResult[]): string {
+  const counts = [
+    `${summary.passed} passed`,
+    ...(summary.failed > 0 ? [`${summary.failed} failed`] : []),
+    ...(summary.errors > 0 ? [`${summary.errors} errors`] : []),
+    ...(summary.skipped ? [`${summary.skipped} skipped`] : []),
+    formatDuration(summary.duration_ms),
+  ];
+  const ok = summary.failed === 0 && summary.errors === 0;
+  return [
+    `<section class="file">`,
+    `<h2><span class="badge ${ok ? 'pass' : 'fail'}">${ok ? 'pass' : 'fail'}</span> ${escapeHtml(relative(process.cwd(), summary.file) || summary.file)}`
+      + ` <span class="meta">${escapeHtml(counts.join(' · '))}</span></h2>`,
+    ...tests.map(renderTest),
+    '</section>',
+  ].join('\n');
+}
+
+const STYLE = `
+body { font: 14px/1.5 -apple-system, system-ui, sans-serif; margin: 0; background: #f6f7f9; color: #1d2330; }
+header { background: #1d2330; color: #fff; padding: 16px 24px; }
+header h1 { margin: 0 0 4px; font-size: 18px; }
+header .stats span { margin-right: 16px; }
+.toolbar { padding: 12px 24px; display: flex; gap: 8px; align-items: center; }
+.toolbar button { border: 1px solid #c9ced8; background: #fff; border-radius: 4px; padding: 4px 10px; cursor: pointer; }
+.toolbar button.active { background: #7c5cfc; border-color: #7c5cfc; color: #fff; }
+.toolbar input { flex: 1; max-width: 320px; padding: 4px 8px; border: 1px solid #c9ced8; border-radius: 4px; }
+main { padding: 0 24px 24px; }
+.file h2 { font-size: 14px; margin: 16px 0 8px; }
+.test { background: #fff; border: 1px solid #dde1e8; border-left: 4px solid #2e9e5b; border-radius: 4px; margin-bottom: 8px; }
+.test.fail { border-left-color: #d64545; }
+.test.error { border-left-color: #e08a1e; }
+.test.skip { border-left-color: #b5bac6; }
+.test > summary { padding: 8px 12px; cursor: pointer; }
+.test > :not(summary) { margin: 0 12px 12px; }
+.test-name { font-weight: 600; }
+.meta { color: #6b7385; font-size: 12px; }
+.badge { display: inline-block; font-size: 11px; font-weight: 600; text-transform: uppercase; padding: 0 6px; border-radius: 3px; background: #2e9e5b; color: #fff; }
+.badge.fail { background: #d64545; }
+.badge.error { background: #e08a1e; }
+.badge.skip { background: #b5bac6; }
+.step { border-top: 1px solid #eef0f4; padding-top: 8px; }
+.step h4 { margin: 0 0 8px; font-size: 13px; }
+.msg { border-radius: 4px; padding: 6px 10px; margin-bottom: 6px; background: #f1f3f7; }
+.msg.user { background: #e8f0fe; }
+.msg.tool { background: #fdf6e3; }
+.msg.system { background: #f3effe; }
+.role { font-size: 11px; font-weight: 600; text-transform: uppercase; color: #6b7385; }
+.text { white-space: pre-wrap; }
+.call .name { font-family: ui-monospace, monospace; font-weight: 600; color: #7c5cfc; }
+pre { margin: 4px 0 0; font: 12px/1.4 ui-monospace, monospace; white-space: pre-wrap; word-break: break-word; }
+.capture { font-family: ui-monospace, monospace; font-size: 12px; color: #1d6fb8; }
+.assertion { padding: 2px 8px; border-radius: 3px; margin: 2px 0; }
+.assertion.fail { background: #fde8e8; color: #a32020; font-weight: 600; }
+.assertion.pass { color: #2e7a4b; }
+.passed summary { color: #6b7385; font-size: 12px; cursor: pointer; }
+.hidden { display: none; }
+`;
+
+const SCRIPT = `
+const tests = [...document.querySelectorAll('.test')];
+let status = 'all';
+const search = document.getElementById('search');
+function apply() {
+  const q = search.value.trim().toLowerCase();
+  for (const t of tests) {
+    const failed = t.dataset.status === 'fail' || t.dataset.status === 'error';
+    const statusOk = status === 'all' || (status === 'failed' ? failed : t.dataset.status === 'pass');
+    t.classList.toggle('hidden', !statusOk || (q !== '' && !t.dataset.name.includes(q)));
+  }
+  for (const f of document.querySelectorAll('.file')) {
+    f.classList.toggle('hidden', !f.querySelector('.test:not(.hidden)'));
+  }
+}
+for (const b of document.querySelectorAll('[data-filter]')) {
+  b.addEventListener('click', () => {
+    status = b.dataset.filter;
+    document.querySelectorAll('[data-filter]').forEach(x => x.classList.toggle('active', x === b));
+    apply();
+  });
+}
+search.addEventListener('input', apply);
+`;
+
+/**
+ * Render results as a single self-contained HTML page (no external assets):
+ * a summary, filters for failed tests, and for every test the full
+ * conversation with tool calls, mock results and failing assertions inline.
+ */
+export function reportHTML(result: RunResult, generatedAt = new Date()): string {
+  const { summary, tokens } = result;
+  const files = result.files ?? summarizeFiles(result.tests);
+  const stats = [
+    `${summary.passed} passed`,
+    `${summary.failed} failed`,
+    ...(summary.errors > 0 ? [`${summary.errors} errors`] : []),
+    ...(summary.skipped ? [`${summary.skipped} skipped`] : []),
+    `${tokens.total.toLocaleString()} tokens`,
+    formatCost(tokens.cost_usd),
+    formatDuration(result.duration_ms),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>promptman-test report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>promptman-test report</h1>
+<div class="stats">${stats.map(s => `<span>${escapeHtml(s)}</span>`).join('')}</div>
+<div class="meta">Generated ${escapeHtml(generatedAt.toISOString())}</div>
+</header>
+<div class="toolbar">
+<button data-filter="all" class="active">All (${summary.total})</button>
+<button data-filter="failed">Failed (${summary.failed + summary.errors})</button>
+<button data-filter="passed">Passed (${summary.passed})</button>
+<input id="search" type="search" placeholder="Filter by test or file name">
+</div>
+<main>
+${files.map(f => renderFile(f, result.tests.filter(t => t.file === f.file))).join('\n')}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>`;
+}
@@ -3,6 +3,11 @@
 import { Command } from 'commander';
 import { run } from './runner.js';
 
+/** Collect a repeatable, comma-separated option into one list. */
+function list(value: string, previous: string[] = []): string[] {
+  return [...previous, ...value.split(',').map(v => v.trim()).filter(Boolean)];
+}
+
 const program = new Command();
 
 program
@@ -13,24 +18,66 @@ program
   .option('-c, --config <path>', 'Config file path')
   .option('-v, --verbose', 'Show detailed output including full LLM responses')
   .option('--json', 'Output results as JSON')
+  .option('--reporter <format>', 'Output format: console, json, junit or html (default: console)')
+  .option('-o, --output <path>', 'Write the json, junit or html report to a file instead of stdout')
   .option('--model <model>', 'Override model for all tests')
+  .option('--models <list>', 'Run every test against each model (comma-separated) and compare')
   .option('--base-url <url>', 'Override provider base URL')
+  .option('--judge-model <model>', 'Model used to grade judge assertions')
   .option('--timeout <ms>', 'Override step timeout (ms)', parseInt)
   .option('--max-turns <n>', 'Override max turns safety limit', parseInt)
+  .option('--retries <n>', 'Retries for rate limits and transient provider errors (default: 2)', parseInt)
+  .option('--grep <pattern>', 'Run only tests whose name matches this regular expression')
+  .option('--tag <tags>', 'Run only tests with one of these tags (comma-separated, repeatable)', list)
+  .option('--exclude-tag <tags>', 'Skip tests with any of these tags (comma-separated, repeatable)', list)
   .option('--bail', 'Stop on first failure')
+  .option('--stream', 'Stream responses and record time to first token')
+  .option('--concurrency <n>', 'Number of tests to run in parallel', parseInt)
+  .option('--repeat <n>', 'Run each test n times and report its pass rate', parseInt)
+  .option('--min-pass-rate <rate>', 'Pass rate (0-1) a repeated test needs to pass (default: 1)', parseFloat)
   .option('--dry-run', 'Parse and validate test files without running')
+  .option('-w, --watch', 'Re-run affected tests when test, config or prompt files change')
+  .option('--record', 'Record LLM responses to cassette files')
+  .option('--replay', 'Replay LLM responses from cassette files (no network or API key)')
+  .option('--cassette-dir <dir>', 'Directory for cassette files (default: __cassettes__ next to each test)')
+  .option('--max-cost <usd>', 'Stop the run once its estimated cost passes this many dollars', parseFloat)
+  .option('--max-tokens <n>', 'Stop the run once it has used this many tokens', parseInt)
+  .option('--save-baseline <path>', 'Save per-test results and metrics as a baseline file')
+  .option('--compare <path>', 'Compare results with a baseline file and report regressions')
+  .option('--max-token-growth <pct>', 'Fail when a test uses more than pct% more tokens than the baseline', parseFloat)
   .action(async (files: string[], options) => {
     try {
       await run(files, {
         config: options.config,
         verbose: options.verbose,
         json: options.json,
+        reporter: options.reporter,
+        output: options.output,
         model: options.model,
+        models: options.models,
         baseUrl: options.baseUrl,
+        judgeModel: options.judgeModel,
         timeout: options.timeout,
         maxTurns: options.maxTurns,
+        retries: options.retries,
         bail: options.bail,
+        stream: options.stream,
+        concurrency: options.concurrency,
+        repeat: options.repeat,
+        minPassRate: options.minPassRate,
         dryRun: options.dryRun,
+        record: options.record,
+        replay: options.replay,
+        cassetteDir: options.cassetteDir,
+        watch: options.watch,
+        saveBaseline: options.saveBaseline,
+        compare: options.compare,
+        maxTokenGrowth: options.maxTokenGrowth,
+        maxCost: options.maxCost,
+        maxTokens: options.maxTokens,
+        grep: options.grep,
+        tags: options.tag,
+        excludeTags: options.excludeTag,
       });
     } catch (error) {
       console.error(`Fatal error: ${(error as Error).message}`);
@@ -0,0 +1,58 @@
+// ── JSON Paths ──────────────────────────────────────────────────────────────
+
+export type PathSegment = string | number;
+
+/**
+ * Parse a JSONPath-style path into its segments. Accepts an optional leading
+ * `$`, dotted keys (`address.city`), array indexes (`items[0]`) and quoted
+ * keys (`['first name']`).
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const re = /\.?([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])(.*?)\3\]/gy;
+  let rest = path.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+
+  let pos = 0;
+  while (pos < rest.length) {
+    re.lastIndex = pos;
+    const match = re.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid path "${path}" at "${rest.slice(pos)}"`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[4]!);
+    pos = re.lastIndex;
+  }
+  return segments;
+}
+
+/**
+ * Read the value at `path`, or undefined if any segment is missing.
+ */
+export function getPath(value: unknown, path: string | PathSegment[]): unknown {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+const FENCED_JSON = /```(?:json)?[^\S\n]*\n([\s\S]*?)\n?```/;
+
+/**
+ * Parse JSON from model output. Accepts bare JSON or the first Markdown code
+ * fence (```json … ```) in the text. Throws the parser's error if neither parses.
+ */
+export function extractJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const fenced = FENCED_JSON.exec(text);
+    if (!fenced) throw error;
+    return JSON.parse(fenced[1]!);
+  }
+}
@@ -0,0 +1,90 @@
+import type { AssertionResult, ChatMessage, Config, JudgeAssertion } from './types.js';
+import { callLLM, type CallOptions } from './llm.js';
+import { resolveTestProvider } from './config.js';
+import { estimateTokens } from './utils.js';
+
+export const DEFAULT_JUDGE_THRESHOLD = 7;
+
+const JUDGE_SYSTEM_PROMPT = `You are an impartial evaluator grading an AI assistant's reply against a rubric.
+Score how well the reply satisfies the rubric from 0 (not at all) to 10 (fully).
+Respond with JSON only, no other text: {"score": <integer 0-10>, "reasoning": "<one or two sentences>"}`;
+
+export interface JudgeVerdict {
+  score: number;
+  reasoning: string;
+}
+
+export interface JudgeOutcome {
+  result: AssertionResult;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+function buildJudgeMessages(rubric: string, userMessage: string | undefined, response: string): ChatMessage[] {
+  const parts = [`Rubric:\n${rubric}`];
+  if (userMessage) {
+    parts.push(`User message:\n${userMessage}`);
+  }
+  parts.push(`Assistant reply:\n${response}`);
+
+  return [
+    { role: 'system', content: JUDGE_SYSTEM_PROMPT },
+    { role: 'user', content: parts.join('\n\n') },
+  ];
+}
+
+/**
+ * Extract the judge's score and reasoning from its reply. Tolerates prose
+ * or code fences around the JSON object. Returns null if no verdict is found.
+ */
+export function parseVerdict(content: string): JudgeVerdict | null {
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[0]) as Record<string, unknown>;
+    const score = Number(parsed.score);
+    if (!Number.isFinite(score)) return null;
+    return { score, reasoning: String(parsed.reasoning ?? '').trim() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Grade a response against a rubric using the judge provider
+ * (`config.judge`, falling back to the main provider).
+ */
+export async function evaluateJudgeAssertion(
+  judge: string | JudgeAssertion,
+  userMessage: string | undefined,
+  response: string,
+  config: Config,
+  options: Omit<CallOptions, 'provider'> = {},
+): Promise<JudgeOutcome> {
+  const { rubric, threshold = DEFAULT_JUDGE_THRESHOLD } = typeof judge === 'string' ? { rubric: judge } : judge;
+  const model = resolveTestProvider(config, config.judge).model;
+  const messages = buildJudgeMessages(rubric, userMessage, response);
+
+  const completion = await callLLM(messages, [], config, { ...options, provider: config.judge });
+  const content = completion.choices[0]?.message.content ?? '';
+
+  const inputTokens = completion.usage?.prompt_tokens ?? estimateTokens(messages.map(m => m.content ?? '').join(' '));
+  const outputTokens = completion.usage?.completion_tokens ?? estimateTokens(content);
+
+  const verdict = parseVerdict(content);
+  const label = `Judge "${rubric.length > 60 ? `${rubric.slice(0, 59)}…` : rubric}"`;
+
+  let result: AssertionResult;
+  if (!verdict) {
+    result = { passed: false, message: `${label}: could not parse verdict — got: "${content.slice(0, 100)}"` };
+  } else {
+    const summary = `${verdict.score}/10 (threshold ${threshold})${verdict.reasoning ? ` — ${verdict.reasoning}` : ''}`;
+    result = verdict.score >= threshold
+      ? { passed: true, message: `${label}: ${summary}` }
+      : { passed: false, message: `${label}: scored ${summary}` };
+  }
+
+  return { result, model, inputTokens, outputTokens };
+}
@@ -0,0 +1,208 @@
+import type {
+  Config,
+  ProviderConfig,
+  ChatMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ToolDefinition,
+  RetryInfo,
+  ToolCall,
+  TurnTiming,
+} from './types.js';
+import { callAnthropic } from './anthropic.js';
+import { readSSE } from './sse.js';
+import { resolveTestProvider } from './config.js';
+import type { Cassette } from './cassette.js';
+import { providerError, withRetry, DEFAULT_RETRIES, DEFAULT_RETRY_DELAY } from './retry.js';
+
+function buildToolsPayload(tools: ToolDefinition[]): NonNullable<ChatCompletionRequest['tools']> {
+  return tools.map(t => ({
+    type: 'function' as const,
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+    },
+  }));
+}
+
+interface ChatCompletionChunk {
+  id: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionResponse['usage'] | null;
+}
+
+/**
+ * Assemble a streamed chat completion from its SSE chunks. Tool calls arrive
+ * as deltas keyed by index: the id and name come first, then the arguments
+ * in fragments.
+ */
+async function readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onFirstToken: () => void,
+): Promise<ChatCompletionResponse> {
+  let id = '';
+  let content = '';
+  let finishReason = 'stop';
+  let usage: ChatCompletionResponse['usage'];
+  const toolCalls: ToolCall[] = [];
+  let receivedToken = false;
+
+  for await (const event of readSSE(body)) {
+    if (event.data === '[DONE]') break;
+    const chunk = JSON.parse(event.data) as ChatCompletionChunk;
+    id ||= chunk.id;
+    if (chunk.usage) usage = chunk.usage;
+
+    for (const choice of chunk.choices ?? []) {
+      const { delta } = choice;
+      if (!receivedToken && (delta.content || delta.tool_calls?.length)) {
+        receivedToken = true;
+        onFirstToken();
+      }
+      content += delta.content ?? '';
+      for (const part of delta.tool_calls ?? []) {
+        const call = toolCalls[part.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      }
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+  }
+
+  const message: ChatMessage = { role: 'assistant', content: content || null };
+  const calls = toolCalls.filter(Boolean);
+  if (calls.length > 0) {
+    message.tool_calls = calls;
+  }
+
+  return { id, choices: [{ index: 0, message, finish_reason: finishReason }], usage };
+}
+
+async function callOpenAI(
+  body: ChatCompletionRequest,
+  baseUrl: string,
+  apiKey: string | undefined,
+  signal: AbortSignal,
+  onFirstToken?: () => void,
+): Promise<ChatCompletionResponse> {
+  const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  // Streaming is requested with a first-token callback; usage arrives in the last chunk
+  const payload = onFirstToken
+    ? { ...body, stream: true, stream_options: { include_usage: true } }
+    : body;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await providerError(response);
+  }
+
+  if (onFirstToken && response.body) {
+    return readChatCompletionStream(response.body, onFirstToken);
+  }
+
+  return (await response.json()) as ChatCompletionResponse;
+}
+
+export interface CallOptions {
+  /** Per-test (or judge) provider overrides on top of the configured provider. */
+  provider?: Partial<ProviderConfig>;
+  cassette?: Cassette;
+  signal?: AbortSignal;
+  /** Called before each retry of a rate-limited or failed request. */
+  onRetry?: (info: RetryInfo) => void;
+  /** Called with the latency (and time to first token, when streaming) of each answered request. */
+  onTiming?: (timing: TurnTiming) => void;
+}
+
+/**
+ * Send one chat completion request to the configured provider and return
+ * the response in OpenAI shape, whichever provider type answered it.
+ * Rate limits and transient errors are retried with backoff (`settings.retries`).
+ * With `settings.stream` the response is streamed and assembled from SSE chunks.
+ * With a replay cassette no request is sent at all.
+ */
+export async function callLLM(
+  messages: ChatMessage[],
+  tools: ToolDefinition[],
+  config: Config,
+  options: CallOptions = {},
+): Promise<ChatCompletionResponse> {
+  const provider = resolveTestProvider(config, options.provider);
+  const cassette = options.cassette;
+
+  const body: ChatCompletionRequest = {
+    model: provider.model,
+    messages,
+  };
+
+  if (tools.length > 0) {
+    body.tools = buildToolsPayload(tools);
+  }
+
+  if (cassette?.mode === 'replay') {
+    return cassette.replay(body);
+  }
+
+  const stream = config.settings.stream ?? false;
+  let timing: TurnTiming = { latencyMs: 0 };
+
+  const completion = await withRetry(async () => {
+    // Each attempt gets the full timeout
+    const timeout = AbortSignal.timeout(config.settings.timeout);
+    const signal = options.signal ? AbortSignal.any([timeout, options.signal]) : timeout;
+
+    const start = Date.now();
+    let ttftMs: number | undefined;
+    const onFirstToken = stream ? () => { ttftMs = Date.now() - start; } : undefined;
+
+    const result = provider.type === 'anthropic'
+      ? await callAnthropic(body, {
+        baseUrl: provider.base_url,
+        apiKey: provider.api_key,
+        signal,
+        maxTokens: provider.max_tokens,
+        onFirstToken,
+      })
+      : await callOpenAI(body, provider.base_url, provider.api_key, signal, onFirstToken);
+
+    timing = { latencyMs: Date.now() - start, ...(ttftMs !== undefined ? { ttftMs } : {}) };
+    return result;
+  }, {
+    retries: config.settings.retries ?? DEFAULT_RETRIES,
+    baseDelay: config.settings.retry_delay ?? DEFAULT_RETRY_DELAY,
+    signal: options.signal,
+    onRetry: options.onRetry,
+  });
+
+  options.onTiming?.(timing);
+  cassette?.record(body, completion);
+  return completion;
+}
@@ -0,0 +1,224 @@
+import { isDeepStrictEqual } from 'node:util';
+import type { AssertionResult, ArgValue } from './types.js';
+import { getPath } from './jsonpath.js';
+
+// ── Matchers ────────────────────────────────────────────────────────────────
+// One engine for tool call arg assertions and mock `when:` conditions.
+
+const OPERATORS = new Set([
+  'equals', 'contains', 'not_contains', 'matches', 'gte', 'lte',
+  'length', 'includes', 'every',
+]);
+
+function ok(message: string): AssertionResult {
+  return { passed: true, message };
+}
+
+function fail(message: string): AssertionResult {
+  return { passed: false, message };
+}
+
+function show(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * An object made only of operator keys (`contains`, `gte`, `every`, …) is a
+ * matcher; any other object is matched key by key against the actual value.
+ */
+function isOperatorObject(expected: object): boolean {
+  const keys = Object.keys(expected);
+  return keys.length > 0 && keys.every(k => OPERATORS.has(k));
+}
+
+export interface MatchOptions {
+  /**
+   * Mock `when:` semantics: an expected `null` matches anything, and
+   * primitives compare as strings, so `true` matches `"true"`.
+   */
+  loose?: boolean;
+}
+
+/** Whether all results passed; used where only a yes/no is needed. */
+export function allPassed(results: AssertionResult[]): boolean {
+  return results.every(r => r.passed);
+}
+
+/**
+ * Match a value against an expectation. Primitives compare by value, plain
+ * objects and arrays match recursively, and operator objects apply each
+ * operator. Returns one result per leaf check, labelled with its path.
+ */
+export function matchValue(actual: unknown, expected: ArgValue, path: string, options: MatchOptions = {}): AssertionResult[] {
+  if ((expected === null || expected === undefined) && options.loose) {
+    return [ok(`${path} is anything`)];
+  }
+
+  if (expected === null || expected === undefined) {
+    return [actual === null || actual === undefined
+      ? ok(`${path} is null`)
+      : fail(`${path}: expected null, got "${show(actual)}"`)];
+  }
+
+  if (options.loose && typeof expected !== 'object') {
+    return [String(actual) === String(expected)
+      ? ok(`${path} = ${show(expected)}`)
+      : fail(`${path}: expected ${show(expected)}, got ${show(actual)}`)];
+  }
+
+  if (typeof expected === 'string') {
+    return [String(actual) === expected
+      ? ok(`${path} = "${expected}"`)
+      : fail(`${path}: expected "${expected}", got "${show(actual)}"`)];
+  }
+
+  if (typeof expected === 'number') {
+    return [Number(actual) === expected
+      ? ok(`${path} = ${expected}`)
+      : fail(`${path}: expected ${expected}, got ${show(actual)}`)];
+  }
+
+  if (typeof expected === 'boolean') {
+    return [actual === expected
+      ? ok(`${path} = ${expected}`)
+      : fail(`${path}: expected ${expected}, got ${show(actual)}`)];
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) {
+      return [fail(`${path}: expected an array, got ${show(actual)}`)];
+    }
+    if (actual.length !== expected.length) {
+      return [fail(`${path}: expected ${expected.length} element(s), got ${actual.length}`)];
+    }
+    return expected.flatMap((item, i) => matchValue(actual[i], item, `${path}[${i}]`, options));
+  }
+
+  if (typeof expected === 'object') {
+    if (isOperatorObject(expected)) {
+      return matchOperators(actual, expected as Record<string, unknown>, path, options);
+    }
+    if (typeof actual !== 'object' || actual === null || Array.isArray(actual)) {
+      return [fail(`${path}: expected an object, got ${show(actual)}`)];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      matchValue((actual as Record<string, unknown>)[key], value as ArgValue, `${path}.${key}`, options),
+    );
+  }
+
+  return [fail(`${path}: unsupported assertion type`)];
+}
+
+function matchOperators(actual: unknown, assertion: Record<string, unknown>, path: string, options: MatchOptions): AssertionResult[] {
+  const results: AssertionResult[] = [];
+  const actualStr = typeof actual === 'string' ? actual : show(actual ?? '');
+  const actualNum = Number(actual);
+
+  if ('equals' in assertion) {
+    const expected = assertion.equals;
+    const equal = typeof expected === 'object' && expected !== null
+      ? isDeepStrictEqual(actual, expected)
+      : String(actual) === String(expected);
+    results.push(equal
+      ? ok(`${path} equals "${show(expected)}"`)
+      : fail(`${path}: expected equals "${show(expected)}", got "${show(actual)}"`));
+  }
+
+  if ('contains' in assertion) {
+    const needle = String(assertion.contains);
+    results.push(actualStr.includes(needle)
+      ? ok(`${path} contains "${needle}"`)
+      : fail(`${path}: expected to contain "${needle}", got "${actualStr}"`));
+  }
+
+  if ('not_contains' in assertion) {
+    const needle = String(assertion.not_contains);
+    results.push(!actualStr.includes(needle)
+      ? ok(`${path} does not contain "${needle}"`)
+      : fail(`${path}: expected NOT to contain "${needle}", but it does`));
+  }
+
+  if ('matches' in assertion) {
+    const pattern = String(assertion.matches);
+    results.push(new RegExp(pattern).test(actualStr)
+      ? ok(`${path} matches /${pattern}/`)
+      : fail(`${path}: expected to match /${pattern}/, got "${actualStr}"`));
+  }
+
+  if ('gte' in assertion) {
+    results.push(actualNum >= Number(assertion.gte)
+      ? ok(`${path} >= ${assertion.gte}`)
+      : fail(`${path}: expected >= ${assertion.gte}, got ${show(actual)}`));
+  }
+
+  if ('lte' in assertion) {
+    results.push(actualNum <= Number(assertion.lte)
+      ? ok(`${path} <= ${assertion.lte}`)
+      : fail(`${path}: expected <= ${assertion.lte}, got ${show(actual)}`));
+  }
+
+  if ('length' in assertion) {
+    if (typeof actual === 'string' || Array.isArray(actual)) {
+      results.push(...matchValue(actual.length, assertion.length as ArgValue, `${path}.length`, options));
+    } else {
+      results.push(fail(`${path}: expected an array or string for length, got ${show(actual)}`));
+    }
+  }
+
+  if ('includes' in assertion || 'every' in assertion) {
+    results.push(...matchElements(actual, assertion, path, options));
+  }
+
+  return results;
+}
+
+function matchElements(actual: unknown, assertion: Record<string, unknown>, path: string, options: MatchOptions): AssertionResult[] {
+  if (!Array.isArray(actual)) {
+    return [fail(`${path}: expected an array, got ${show(actual)}`)];
+  }
+  const results: AssertionResult[] = [];
+
+  if ('includes' in assertion) {
+    const expected = assertion.includes as ArgValue;
+    const found = actual.some((item, i) => allPassed(matchValue(item, expected, `${path}[${i}]`, options)));
+    results.push(found
+      ? ok(`${path} includes ${show(expected)}`)
+      : fail(`${path}: expected an element matching ${show(expected)}, got ${show(actual)}`));
+  }
+
+  if ('every' in assertion) {
+    const expected = assertion.every as ArgValue;
+    const failure = actual
+      .map((item, i) => matchValue(item, expected, `${path}[${i}]`, options).find(r => !r.passed))
+      .find(r => r !== undefined);
+    results.push(failure ?? ok(`${path}: every element matches ${show(expected)}`));
+  }
+
+  return results;
+}
+
+function readPath(args: Record<string, unknown>, key: string): unknown {
+  try {
+    return getPath(args, key);
+  } catch {
+    return undefined; // not a path, just a missing arg
+  }
+}
+
+/**
+ * Match tool call args against expected values. Keys may be plain arg names
+ * or paths into nested args (`address.city`, `items[0].sku`, `$.a.b`); an
+ * arg whose name literally contains a dot wins over the path reading.
+ */
+export function matchArgs(
+  args: Record<string, unknown>,
+  expected: Record<string, ArgValue>,
+  label = '',
+  options: MatchOptions = {},
+): AssertionResult[] {
+  return Object.entries(expected).flatMap(([key, value]) => {
+    const actual = typeof args === 'object' && args !== null && key in args ? args[key] : readPath(args, key);
+    const path = key.startsWith('$') ? key.replace(/^\$\.?/, '') : key;
+    return matchValue(actual, value, `${label}${path}`, options);
+  });
+}
@@ -0,0 +1,89 @@
+import type {
+  Config,
+  MatrixSummary,
+  ProviderConfig,
+  TestDefinition,
+  TestResult,
+} from './types.js';
+import { resolveTestProvider } from './config.js';
+
+/**
+ * One provider/model a test runs against. `label` is undefined outside of
+ * matrix runs.
+ */
+export interface Variant {
+  label?: string;
+  config: Config;
+}
+
+/**
+ * Expand `config.matrix` into one config per entry. Each entry is applied
+ * like a per-test provider override, while the judge stays pinned to the
+ * base config so every model is graded the same way.
+ */
+export function resolveVariants(config: Config): Variant[] {
+  if (!config.matrix || config.matrix.length === 0) {
+    return [{ config }];
+  }
+
+  const judge = resolveTestProvider(config, config.judge);
+  const seen = new Set<string>();
+
+  return config.matrix.map(entry => {
+    const { label: customLabel, ...provider } = entry;
+    const resolved = resolveTestProvider(config, provider);
+    const label = customLabel ?? resolved.model;
+    if (seen.has(label)) {
+      throw new Error(`Duplicate matrix entry "${label}". Give entries with the same model a distinct label.`);
+    }
+    seen.add(label);
+
+    return { label, config: { ...config, provider: resolved, judge } };
+  });
+}
+
+const PROVIDER_KEYS: Array<keyof ProviderConfig> = ['type', 'model', 'base_url', 'api_key'];
+
+/**
+ * In a matrix run the variant decides the provider and model, so a test's own
+ * provider override keeps only its remaining settings (e.g. `max_tokens`).
+ */
+export function applyVariant(test: TestDefinition, variant: Variant): TestDefinition {
+  if (!variant.label || !test.provider) return test;
+
+  const provider = { ...test.provider };
+  for (const key of PROVIDER_KEYS) delete provider[key];
+  return { ...test, provider: Object.keys(provider).length > 0 ? provider : undefined };
+}
+
+/**
+ * Mean LLM latency per turn across a test's steps, if any was measured.
+ */
+export function meanLatency(test: TestResult): number | undefined {
+  const timings = test.steps.flatMap(s => s.timings ?? []);
+  if (timings.length === 0) return undefined;
+  return timings.reduce((sum, t) => sum + t.latencyMs, 0) / timings.length;
+}
+
+/**
+ * Per-variant totals for the comparison report, in matrix order.
+ */
+export function summarizeMatrix(results: TestResult[], labels: string[]): MatrixSummary[] {
+  return labels.map(label => {
+    const tests = results.filter(r => r.variant === label);
+    const latencies = tests.map(meanLatency).filter((l): l is number => l !== undefined);
+
+    return {
+      variant: label,
+      passed: tests.filter(r => r.passed).length,
+      failed: tests.filter(r => !r.passed && !r.error && !r.skipped).length,
+      errors: tests.filter(r => !!r.error).length,
+      total: tests.length,
+      tokens: tests.reduce((sum, r) => sum + r.totalTokens, 0),
+      cost_usd: tests.reduce((sum, r) => sum + r.estimatedCost, 0),
+      ...(latencies.length > 0
+        ? { latency_ms: latencies.reduce((sum, l) => sum + l, 0) / latencies.length }
+        : {}),
+    };
+  });
+}
@@ -1,59 +1,86 @@
-import type { StepMock, MockDefinition, ArgValue, ToolCall } from './types.js';
+import { statSync } from 'node:fs';
+import { basename } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { StepMock, MockDefinition, ArgValue, ToolCall, MockCall, MockHandler } from './types.js';
+import { matchArgs, allPassed } from './matchers.js';
 
 /**
- * Check if a value matches an arg assertion.
+ * Mock state for one test run: per-tool call counters for `sequence:` mocks,
+ * the history of mocked calls, and the shared state object passed to
+ * handler mocks. Step-scoped counters reset at the start of every step;
+ * everything else lasts for the whole test.
  */
-function matchesArgValue(actual: unknown, expected: ArgValue): boolean {
-  if (expected === null || expected === undefined) return true;
-
-  // Primitive comparison
-  if (typeof expected === 'string' || typeof expected === 'number' || typeof expected === 'boolean') {
-    return String(actual) === String(expected);
+export class MockSession {
+  readonly history: MockCall[] = [];
+  readonly state: Record<string, unknown> = {};
+  private stepCounts = new Map<string, number>();
+  private testCounts = new Map<string, number>();
+
+  startStep(): void {
+    this.stepCounts.clear();
   }
 
-  // Object assertion (contains, matches, gte, lte, equals)
-  if (typeof expected === 'object' && expected !== null) {
-    const assertion = expected as Record<string, unknown>;
-    const actualStr = String(actual ?? '');
-    const actualNum = Number(actual);
-
-    if ('equals' in assertion) {
-      return String(actual) === String(assertion.equals);
-    }
-    if ('contains' in assertion) {
-      return actualStr.includes(String(assertion.contains));
-    }
-    if ('matches' in assertion) {
-      return new RegExp(String(assertion.matches)).test(actualStr);
-    }
-    if ('not_contains' in assertion) {
-      return !actualStr.includes(String(assertion.not_contains));
-    }
-    if ('gte' in assertion || 'lte' in assertion) {
-      if ('gte' in assertion && actualNum < Number(assertion.gte)) return false;
-      if ('lte' in assertion && actualNum > Number(assertion.lte)) return false;
-      return true;
-    }
+  /** Return the 0-based call index for this tool and advance the counter. */
+  next(toolName: string, scope: 'step' | 'test' = 'step'): number {
+    const counts = scope === 'test' ? this.testCounts : this.stepCounts;
+    const index = counts.get(toolName) ?? 0;
+    counts.set(toolName, index + 1);
+    return index;
   }
-
-  return false;
 }
 
 /**
- * Check if a tool call's args match a condition.
+ * Check if a tool call's args match a condition. Conditions match loosely,
+ * as they always have: `null` matches any value and `true` matches `"true"`.
  */
 function argsMatchCondition(toolCallArgs: Record<string, unknown>, condition: Record<string, ArgValue>): boolean {
-  for (const [key, expected] of Object.entries(condition)) {
-    if (!matchesArgValue(toolCallArgs[key], expected)) return false;
-  }
-  return true;
+  return allPassed(matchArgs(toolCallArgs, condition, '', { loose: true }));
 }
 
 /**
  * Resolve a mock definition for a given tool call.
  * Returns the mock response value or throws if the tool has no mock.
  */
-function resolveMockDefinition(mock: MockDefinition, args: Record<string, unknown>): unknown {
+async function resolveMockDefinition(
+  mock: MockDefinition,
+  args: Record<string, unknown>,
+  call: ToolCall,
+  session: MockSession,
+): Promise<unknown> {
+  const toolName = call.function.name;
+
+  // Sequence mock: pick the entry for this call
+  if (mock.sequence) {
+    const index = session.next(toolName, mock.scope);
+    const length = mock.sequence.length;
+    if (index < length) {
+      return resolveMockDefinition(mock.sequence[index]!, args, call, session);
+    }
+    switch (mock.on_exhausted ?? 'repeat_last') {
+      case 'cycle':
+        return resolveMockDefinition(mock.sequence[index % length]!, args, call, session);
+      case 'error':
+        return { error: `Mock sequence for ${toolName} exhausted after ${length} call(s)` };
+      default:
+        return resolveMockDefinition(mock.sequence[length - 1]!, args, call, session);
+    }
+  }
+
+  // Handler mock: a thrown error becomes a tool error result
+  if (mock.handler) {
+    try {
+      const handler = await loadHandler(mock.handler, toolName);
+      return await handler(args, {
+        toolName,
+        callId: call.id,
+        history: [...session.history],
+        state: session.state,
+      });
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
   // Error mock
   if (mock.error) {
     return { error: mock.error };
@@ -81,14 +108,41 @@ function resolveMockDefinition(mock: MockDefinition, args: Record<string, unknow
   return null;
 }
 
+/**
+ * Import a handler module and pick its default export, or the export named
+ * after the tool. The file's mtime is part of the import URL so edits are
+ * picked up in watch mode.
+ */
+async function loadHandler(path: string, toolName: string): Promise<MockHandler> {
+  const url = `${pathToFileURL(path).href}?mtime=${statSync(path).mtimeMs}`;
+  let module: Record<string, unknown>;
+  try {
+    module = (await import(url)) as Record<string, unknown>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(`Cannot load ${basename(path)}: TypeScript handlers need a Node.js version with type stripping (22.18+)`);
+    }
+    throw new Error(`Cannot load mock handler ${basename(path)}: ${(error as Error).message}`);
+  }
+
+  const handler = typeof module.default === 'function' ? module.default : module[toolName];
+  if (typeof handler !== 'function') {
+    throw new Error(`Mock handler ${basename(path)} must export a default function or a function named ${toolName}`);
+  }
+  return handler as MockHandler;
+}
+
 /**
  * Resolve mock responses for a set of tool calls from the current step's mocks.
- * Returns a map of tool_call_id → response content string.
+ * Returns a map of tool_call_id → response content string. Pass the test's
+ * session so `sequence:` counters, call history and handler state carry
+ * across turns.
  */
-export function resolveMocks(
+export async function resolveMocks(
   toolCalls: ToolCall[],
   stepMock: StepMock | undefined,
-): Map<string, string> {
+  session: MockSession = new MockSession(),
+): Promise<Map<string, string>> {
   const results = new Map<string, string>();
 
   for (const call of toolCalls) {
@@ -111,9 +165,11 @@ export function resolveMocks(
         mockDef !== null &&
         ('return' in (mockDef as Record<string, unknown>) ||
           'error' in (mockDef as Record<string, unknown>) ||
-          'conditions' in (mockDef as Record<string, unknown>))
+          'conditions' in (mockDef as Record<string, unknown>) ||
+          'sequence' in (mockDef as Record<string, unknown>) ||
+          'handler' in (mockDef as Record<string, unknown>))
       ) {
-        response = resolveMockDefinition(mockDef as MockDefinition, args);
+        response = await resolveMockDefinition(mockDef as MockDefinition, args, call, session);
       } else {
         // Treat the raw value as the return value directly
         response = mockDef;
@@ -122,6 +178,7 @@ export function resolveMocks(
 
     const content = typeof response === 'string' ? response : JSON.stringify(response);
     results.set(call.id, content);
+    session.history.push({ toolName, args, result: response });
   }
 
   return results;
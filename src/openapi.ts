@@ -0,0 +1,220 @@
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { ToolDefinition, ToolParameter } from './types.js';
+import { getPath } from './jsonpath.js';
+
+// ── OpenAPI Tools ───────────────────────────────────────────────────────────
+
+const METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head', 'trace'];
+
+/** OpenAPI-only schema keywords that mean nothing to the model or the args validator. */
+const OPENAPI_KEYWORDS = new Set(['nullable', 'readOnly', 'writeOnly', 'example', 'examples', 'xml', 'externalDocs', 'discriminator', 'deprecated']);
+
+type Node = Record<string, unknown>;
+
+interface Operation {
+  path: string;
+  method: string;
+  operation: Node;
+  /** Parameters declared on the path item, shared by all its operations */
+  shared: unknown[];
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replace local `$ref`s (`#/components/schemas/Hotel`) with what they point
+ * at. Keys next to a `$ref` override the target, as in OpenAPI 3.1.
+ */
+function resolveRefs(value: unknown, spec: unknown, chain: string[] = []): unknown {
+  if (Array.isArray(value)) return value.map(item => resolveRefs(item, spec, chain));
+  if (!isNode(value)) return value;
+
+  if (typeof value.$ref === 'string') {
+    const ref = value.$ref;
+    if (!ref.startsWith('#/')) {
+      throw new Error(`only local $refs ("#/…") are supported, got: ${ref}`);
+    }
+    if (chain.includes(ref)) {
+      throw new Error(`recursive schemas cannot be used as tool parameters: ${[...chain, ref].join(' → ')}`);
+    }
+    const segments = ref.slice(2).split('/').map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const target = getPath(spec, segments);
+    if (target === undefined) {
+      throw new Error(`$ref target not found: ${ref}`);
+    }
+    const resolved = resolveRefs(target, spec, [...chain, ref]);
+    const siblings = Object.entries(value).filter(([key]) => key !== '$ref');
+    if (siblings.length === 0 || !isNode(resolved)) return resolved;
+    return { ...resolved, ...(resolveRefs(Object.fromEntries(siblings), spec, chain) as Node) };
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, resolveRefs(v, spec, chain)]));
+}
+
+/**
+ * Turn an OpenAPI schema into plain JSON Schema for a tool: `nullable`
+ * becomes a `null` type, read-only properties are dropped (they are never
+ * sent), and OpenAPI-only keywords are removed.
+ */
+function toToolSchema(schema: unknown): ToolParameter {
+  if (!isNode(schema)) return { type: 'string' };
+  const result: Node = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (OPENAPI_KEYWORDS.has(key)) continue;
+    if (key === 'properties' && isNode(value)) {
+      const writable = Object.entries(value).filter(([, prop]) => !(isNode(prop) && prop.readOnly === true));
+      result.properties = Object.fromEntries(writable.map(([name, prop]) => [name, toToolSchema(prop)]));
+    } else if ((key === 'items' || key === 'additionalProperties') && isNode(value)) {
+      result[key] = toToolSchema(value);
+    } else if ((key === 'anyOf' || key === 'oneOf' || key === 'allOf') && Array.isArray(value)) {
+      result[key] = value.map(toToolSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  flattenAllOf(result);
+
+  if (schema.nullable === true && typeof result.type === 'string') {
+    result.type = [result.type, 'null'];
+  }
+  if (Array.isArray(result.required) && isNode(result.properties)) {
+    const properties = result.properties;
+    result.required = result.required.filter(name => typeof name === 'string' && name in properties);
+  }
+  return result as unknown as ToolParameter;
+}
+
+/** Keys an `allOf` branch may have and still be merged into its parent. */
+const MERGEABLE_KEYS = new Set(['type', 'properties', 'required', 'title', 'description']);
+
+/**
+ * Merge `allOf` object branches (`allOf: [$ref Base, { properties… }]`, the
+ * usual OpenAPI composition) into one object schema, so the properties reach
+ * the tool's parameters. Anything else is left as `allOf` for the validator.
+ */
+function flattenAllOf(schema: Node): void {
+  const branches = schema.allOf;
+  if (!Array.isArray(branches)) return;
+  const mergeable = branches.every(branch =>
+    isNode(branch)
+    && (branch.type === undefined || branch.type === 'object')
+    && Object.keys(branch).every(key => MERGEABLE_KEYS.has(key)));
+  if (!mergeable || (schema.type !== undefined && schema.type !== 'object')) return;
+
+  const properties: Node = isNode(schema.properties) ? { ...schema.properties } : {};
+  const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+  for (const branch of branches as Node[]) {
+    Object.assign(properties, isNode(branch.properties) ? branch.properties : {});
+    for (const name of Array.isArray(branch.required) ? branch.required : []) required.add(name);
+  }
+
+  delete schema.allOf;
+  schema.type = 'object';
+  schema.properties = properties;
+  if (required.size > 0) schema.required = [...required];
+}
+
+/** The JSON request body schema, or the first one of any media type. */
+function requestBodySchema(requestBody: unknown): unknown {
+  if (!isNode(requestBody) || !isNode(requestBody.content)) return undefined;
+  const content = requestBody.content;
+  const media = isNode(content['application/json']) ? content['application/json'] : Object.values(content).find(isNode);
+  return media?.schema;
+}
+
+function buildTool({ path, method, operation, shared }: Operation, spec: unknown): ToolDefinition {
+  const name = operation.operationId as string;
+  const properties: Record<string, ToolParameter> = {};
+  const required: string[] = [];
+
+  // Operation parameters override path-level ones with the same name and location
+  const params = new Map<string, Node>();
+  for (const param of resolveRefs([...shared, ...((operation.parameters as unknown[] | undefined) ?? [])], spec) as unknown[]) {
+    if (isNode(param)) params.set(`${String(param.in)}:${String(param.name)}`, param);
+  }
+  for (const param of params.values()) {
+    if ((param.in !== 'path' && param.in !== 'query') || typeof param.name !== 'string') continue;
+    const schema = toToolSchema(param.schema ?? { type: 'string' });
+    if (typeof param.description === 'string' && !schema.description) schema.description = param.description;
+    properties[param.name] = schema;
+    if (param.required === true || param.in === 'path') required.push(param.name);
+  }
+
+  // An object body contributes its properties directly; anything else becomes `body`
+  const requestBody = resolveRefs(operation.requestBody, spec) as Node | undefined;
+  const rawBody = requestBodySchema(requestBody);
+  if (rawBody !== undefined) {
+    const body = toToolSchema(rawBody);
+    if (body.type === 'object' && body.properties) {
+      for (const [prop, schema] of Object.entries(body.properties)) {
+        if (prop in properties) {
+          throw new Error(`request body property "${prop}" clashes with a parameter of the same name`);
+        }
+        properties[prop] = schema;
+      }
+      required.push(...(body.required ?? []));
+    } else {
+      properties.body = body;
+      if (requestBody?.required === true) required.push('body');
+    }
+  }
+
+  const description = [operation.summary, operation.description].find(d => typeof d === 'string' && d.trim() !== '');
+  return {
+    name,
+    description: (description as string | undefined) ?? `${method.toUpperCase()} ${path}`,
+    parameters: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) },
+  };
+}
+
+/**
+ * Generate tool definitions from an OpenAPI 3 document: one per operation,
+ * named after its `operationId`, described by its summary, with path and
+ * query parameters and the request body as the tool's parameters. With
+ * `operations`, only those operations are imported, in that order.
+ */
+export function loadOpenAPITools(file: string, operations?: string[]): ToolDefinition[] {
+  let spec: unknown;
+  try {
+    spec = parseYaml(readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read OpenAPI document ${basename(file)}: ${(err as Error).message}`);
+  }
+  if (!isNode(spec) || typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+    throw new Error(`${basename(file)} is not an OpenAPI 3 document`);
+  }
+
+  const available: Operation[] = [];
+  for (const [path, item] of Object.entries(isNode(spec.paths) ? spec.paths : {})) {
+    if (!isNode(item)) continue;
+    const shared = Array.isArray(item.parameters) ? item.parameters : [];
+    for (const method of METHODS) {
+      const operation = item[method];
+      if (isNode(operation) && typeof operation.operationId === 'string') {
+        available.push({ path, method, operation, shared });
+      }
+    }
+  }
+
+  const selected = operations?.map(id => {
+    const found = available.find(op => op.operation.operationId === id);
+    if (!found) {
+      throw new Error(`operation "${id}" not found in ${basename(file)}`);
+    }
+    return found;
+  }) ?? available;
+
+  return selected.map(op => {
+    try {
+      return buildTool(op, spec);
+    } catch (err) {
+      throw new Error(`${op.operation.operationId as string}: ${(err as Error).message}`);
+    }
+  });
+}
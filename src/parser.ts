@@ -1,10 +1,15 @@
-import { readFileSync } from 'node:fs';
-import { parse as parseYaml } from 'yaml';
-import type { TestDefinition, TestStep, ToolDefinition, MockDefinition, StepMock, ArgValue } from './types.js';
+import { existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { TestDefinition, TestStep, ToolDefinition, MockDefinition, StepMock, ArgValue, CaptureSpec } from './types.js';
+import { loadCases, renderTemplate, caseLabel } from './cases.js';
+import { parseCaptureSource, captureNames, isCaptureRef } from './capture.js';
+import { parsePath } from './jsonpath.js';
+import { loadTestDocuments, mergeDocuments, sourceOf, FixtureError } from './fixtures.js';
+import { loadOpenAPITools } from './openapi.js';
 
 class ParseError extends Error {
-  constructor(file: string, message: string) {
-    super(`[${file}] ${message}`);
+  constructor(readonly file: string, readonly detail: string) {
+    super(`[${file}] ${detail}`);
     this.name = 'ParseError';
   }
 }
@@ -13,7 +18,7 @@ class ParseError extends Error {
  * Normalize raw mock YAML into our MockDefinition structure.
  * Handles both simple `return:` and conditional `when:` arrays.
  */
-function normalizeMock(raw: unknown): MockDefinition {
+function normalizeMock(raw: unknown, dir: string): MockDefinition {
   if (raw === null || raw === undefined) {
     return { return: null };
   }
@@ -44,9 +49,11 @@ function normalizeMock(raw: unknown): MockDefinition {
     return { return: raw };
   }
 
-  // If it's an object with `return`, `error`, or `when` keys
+  // If it's an object with `sequence`, `return`, `error`, or `when` keys
   if (typeof raw === 'object' && raw !== null) {
     const obj = raw as Record<string, unknown>;
+    if ('sequence' in obj) return normalizeSequence(obj, dir);
+    if ('handler' in obj) return normalizeHandler(obj, dir);
     if ('error' in obj) return { error: String(obj.error) };
     if ('return' in obj) return { return: obj.return };
     // Otherwise treat the whole object as the return value
@@ -57,11 +64,46 @@ function normalizeMock(raw: unknown): MockDefinition {
   return { return: raw };
 }
 
-function normalizeStepMocks(raw: Record<string, unknown> | undefined): StepMock | undefined {
+const EXHAUSTED_POLICIES = ['repeat_last', 'cycle', 'error'];
+
+function normalizeSequence(obj: Record<string, unknown>, dir: string): MockDefinition {
+  if (!Array.isArray(obj.sequence) || obj.sequence.length === 0) {
+    throw new Error('"sequence" must be a non-empty list');
+  }
+  if (obj.on_exhausted !== undefined && !EXHAUSTED_POLICIES.includes(obj.on_exhausted as string)) {
+    throw new Error(`"on_exhausted" must be one of: ${EXHAUSTED_POLICIES.join(', ')}`);
+  }
+  if (obj.scope !== undefined && obj.scope !== 'step' && obj.scope !== 'test') {
+    throw new Error('"scope" must be "step" or "test"');
+  }
+  return {
+    sequence: obj.sequence.map(item => normalizeMock(item, dir)),
+    on_exhausted: obj.on_exhausted as MockDefinition['on_exhausted'],
+    scope: obj.scope as MockDefinition['scope'],
+  };
+}
+
+/** Handler modules are resolved relative to the test file. */
+function normalizeHandler(obj: Record<string, unknown>, dir: string): MockDefinition {
+  if (typeof obj.handler !== 'string') {
+    throw new Error('"handler" must be a path to a JS/TS module');
+  }
+  const handler = resolve(dir, obj.handler);
+  if (!existsSync(handler)) {
+    throw new Error(`handler file not found: ${obj.handler}`);
+  }
+  return { handler };
+}
+
+function normalizeStepMocks(raw: Record<string, unknown> | undefined, dir: string): StepMock | undefined {
   if (!raw) return undefined;
   const result: StepMock = {};
   for (const [toolName, mockValue] of Object.entries(raw)) {
-    result[toolName] = normalizeMock(mockValue);
+    try {
+      result[toolName] = normalizeMock(mockValue, dir);
+    } catch (err) {
+      throw new Error(`${toolName}: ${(err as Error).message}`);
+    }
   }
   return result;
 }
@@ -81,7 +123,173 @@ function validateTool(tool: unknown, file: string, index: number): ToolDefinitio
   };
 }
 
-function validateStep(step: unknown, file: string, index: number): TestStep {
+/** Tools generated from an OpenAPI document, which is resolved relative to `file`. */
+function importOpenAPITools(
+  block: Record<string, unknown>,
+  file: string,
+  label: string,
+): { tools: ToolDefinition[]; spec: string } {
+  if (typeof block.openapi !== 'string') {
+    throw new ParseError(file, `${label}.openapi must be a path to an OpenAPI document`);
+  }
+  const operations = block.operations;
+  if (
+    operations !== undefined &&
+    (!Array.isArray(operations) || operations.length === 0 || !operations.every(op => typeof op === 'string'))
+  ) {
+    throw new ParseError(file, `${label}.operations must be a non-empty list of operationIds`);
+  }
+  const spec = resolve(dirname(file), block.openapi);
+  if (!existsSync(spec)) {
+    throw new ParseError(file, `${label}.openapi file not found: ${block.openapi}`);
+  }
+  try {
+    return { tools: loadOpenAPITools(spec, operations as string[] | undefined), spec };
+  } catch (err) {
+    throw new ParseError(file, `${label}: ${(err as Error).message}`);
+  }
+}
+
+function validateJudge(judge: unknown, file: string, index: number): void {
+  if (judge === undefined || typeof judge === 'string') return;
+  const j = judge as Record<string, unknown>;
+  if (typeof judge !== 'object' || judge === null || typeof j.rubric !== 'string') {
+    throw new ParseError(file, `steps[${index}].expect.response.judge must be a rubric string or have a "rubric" string`);
+  }
+  if (j.threshold !== undefined && (typeof j.threshold !== 'number' || j.threshold < 0 || j.threshold > 10)) {
+    throw new ParseError(file, `steps[${index}].expect.response.judge.threshold must be a number between 0 and 10`);
+  }
+}
+
+function isBlock(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Keys allowed in a combinator branch under `expect:` and `assert:`. */
+const EXPECT_BRANCH_KEYS = ['tool_calls', 'tool_calls_not', 'response', 'any_of', 'all_of', 'not'];
+const ASSERT_BRANCH_KEYS = ['tool_order', 'total_tool_calls', 'total_turns', 'total_tokens', 'any_of', 'all_of', 'not'];
+
+/**
+ * Check the shape of `any_of` / `all_of` / `not` blocks, recursively, calling
+ * `visit` on every branch. A branch with no assertions would pass (or, under
+ * `not`, fail) no matter what, so empty branches and unknown keys are errors.
+ */
+function validateCombinators(
+  block: unknown,
+  file: string,
+  label: string,
+  keys: string[],
+  visit?: (branch: Record<string, unknown>, label: string) => void,
+): void {
+  if (!isBlock(block)) return;
+  const branches: Array<[unknown, string]> = [];
+
+  for (const key of ['any_of', 'all_of']) {
+    if (block[key] === undefined) continue;
+    const list = block[key];
+    if (!Array.isArray(list) || list.length === 0) {
+      throw new ParseError(file, `${label}.${key} must be a non-empty list`);
+    }
+    list.forEach((branch, i) => branches.push([branch, `${label}.${key}[${i}]`]));
+  }
+  if (block.not !== undefined) {
+    branches.push([block.not, `${label}.not`]);
+  }
+
+  for (const [branch, branchLabel] of branches) {
+    if (!isBlock(branch)) {
+      throw new ParseError(file, `${branchLabel} must be an object`);
+    }
+    visit?.(branch, branchLabel);
+    const unknown = Object.keys(branch).find(key => !keys.includes(key));
+    if (unknown !== undefined) {
+      throw new ParseError(file, `${branchLabel} has unknown key "${unknown}"; expected one of: ${keys.join(', ')}`);
+    }
+    if (Object.keys(branch).length === 0) {
+      throw new ParseError(file, `${branchLabel} must contain at least one assertion`);
+    }
+    validateCombinators(branch, file, branchLabel, keys, visit);
+  }
+}
+
+/**
+ * Validate a `response.json` block in place; a `schema: { file }` path is
+ * resolved relative to the test file.
+ */
+function validateResponseJson(response: unknown, file: string, label: string): void {
+  if (!isBlock(response) || response.json === undefined || response.json === true) return;
+  const json = response.json;
+  if (!isBlock(json)) {
+    throw new ParseError(file, `${label}.json must be true or an object with "match" and/or "schema"`);
+  }
+
+  if (json.match !== undefined) {
+    if (!isBlock(json.match)) {
+      throw new ParseError(file, `${label}.json.match must map JSONPaths to expected values`);
+    }
+    for (const path of Object.keys(json.match)) {
+      try {
+        parsePath(path);
+      } catch (err) {
+        throw new ParseError(file, `${label}.json.match: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  if (json.schema !== undefined) {
+    if (!isBlock(json.schema)) {
+      throw new ParseError(file, `${label}.json.schema must be a JSON Schema object or { file }`);
+    }
+    if ('file' in json.schema && typeof json.schema.file === 'string') {
+      const schemaFile = resolve(dirname(file), json.schema.file);
+      if (!existsSync(schemaFile)) {
+        throw new ParseError(file, `${label}.json.schema file not found: ${json.schema.file}`);
+      }
+      json.schema = { file: schemaFile };
+    }
+  }
+}
+
+function normalizeCaptures(raw: unknown): Record<string, CaptureSpec> | undefined {
+  if (raw === undefined) return undefined;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('must map names to { from, path?, regex? }');
+  }
+  const captures: Record<string, CaptureSpec> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      throw new Error(`"${name}" is not a valid variable name`);
+    }
+    const spec = value as Record<string, unknown> | null;
+    if (typeof spec !== 'object' || spec === null || typeof spec.from !== 'string') {
+      throw new Error(`${name}: "from" is required`);
+    }
+    try {
+      parseCaptureSource(spec.from);
+      if (spec.path !== undefined) parsePath(String(spec.path));
+      if (spec.regex !== undefined) new RegExp(String(spec.regex));
+    } catch (err) {
+      throw new Error(`${name}: ${(err as Error).message}`);
+    }
+    captures[name] = {
+      from: spec.from,
+      ...(spec.path !== undefined ? { path: String(spec.path) } : {}),
+      ...(spec.regex !== undefined ? { regex: String(spec.regex) } : {}),
+    };
+  }
+  return captures;
+}
+
+/**
+ * Validate one step. `origin` names the file a part of the step was written
+ * in (it may come from a shared fixture), for errors and relative paths.
+ */
+function validateStep(
+  step: unknown,
+  index: number,
+  origin: (...path: string[]) => string,
+): TestStep {
+  const file = origin();
   if (typeof step !== 'object' || step === null) {
     throw new ParseError(file, `steps[${index}] must be an object`);
   }
@@ -92,31 +300,175 @@ function validateStep(step: unknown, file: string, index: number): TestStep {
     throw new ParseError(file, `steps[${index}] must have at least one of: user, expect, assert`);
   }
 
+  const expect = s.expect as TestStep['expect'];
+  const expectFile = origin('expect');
+  validateJudge(expect?.response?.judge, expectFile, index);
+  validateResponseJson(expect?.response, expectFile, `steps[${index}].expect.response`);
+  // The judge only grades the top-level response
+  validateCombinators(expect, expectFile, `steps[${index}].expect`, EXPECT_BRANCH_KEYS, (branch, label) => {
+    if (branch.valid_args !== undefined) {
+      throw new ParseError(expectFile, `${label}.valid_args is only supported directly under expect`);
+    }
+    if (isBlock(branch.response) && branch.response.judge !== undefined) {
+      throw new ParseError(expectFile, `${label}.response.judge is not supported inside any_of, all_of or not`);
+    }
+    validateResponseJson(branch.response, expectFile, `${label}.response`);
+  });
+  validateCombinators(s.assert, origin('assert'), `steps[${index}].assert`, ASSERT_BRANCH_KEYS);
+
+  let mock: StepMock | undefined;
+  const mockFile = origin('mock');
+  try {
+    mock = normalizeStepMocks(s.mock as Record<string, unknown> | undefined, dirname(mockFile));
+  } catch (err) {
+    throw new ParseError(mockFile, `steps[${index}].mock: ${(err as Error).message}`);
+  }
+
+  let capture: TestStep['capture'];
+  try {
+    capture = normalizeCaptures(s.capture);
+  } catch (err) {
+    throw new ParseError(file, `steps[${index}].capture: ${(err as Error).message}`);
+  }
+
   return {
     user: s.user as string | undefined,
-    expect: s.expect as TestStep['expect'],
-    mock: normalizeStepMocks(s.mock as Record<string, unknown> | undefined),
+    expect,
+    mock,
     assert: s.assert as TestStep['assert'],
+    ...(capture ? { capture } : {}),
   };
 }
 
 /**
- * Parse a YAML test file into a validated TestDefinition.
+ * Run `fn`, prefixing the location of any parse error with `label` (e.g. the
+ * `tests:` entry or YAML document it came from).
+ */
+function inContext<T>(label: string | undefined, fn: () => T): T {
+  if (!label) return fn();
+  try {
+    return fn();
+  } catch (err) {
+    if (err instanceof ParseError) throw new ParseError(err.file, `${label}: ${err.detail}`);
+    throw err;
+  }
+}
+
+/**
+ * The tests a document defines: the document itself, or each entry of its
+ * `tests:` list with the other top-level keys merged in as defaults.
  */
-export function parseTestFile(filePath: string): TestDefinition {
-  const content = readFileSync(filePath, 'utf-8');
-  let raw: Record<string, unknown>;
+function testEntries(doc: Record<string, unknown>, filePath: string): Array<[Record<string, unknown>, string?]> {
+  if (doc.tests === undefined) return [[doc]];
 
+  const { tests, ...defaults } = doc;
+  if (!Array.isArray(tests) || tests.length === 0) {
+    throw new ParseError(filePath, '"tests" must be a non-empty list of tests');
+  }
+  if (defaults.name !== undefined) {
+    throw new ParseError(filePath, '"name" goes on each entry of "tests", not on the file');
+  }
+
+  return tests.map((entry: unknown, i) => {
+    if (!isBlock(entry)) {
+      throw new ParseError(sourceOf(doc, ['tests'], filePath), `tests[${i}] must be an object`);
+    }
+    const label = typeof entry.name === 'string' ? `tests[${i}] (${entry.name})` : `tests[${i}]`;
+    const merged = mergeDocuments(defaults, entry, sourceOf(doc, ['tests', i], filePath));
+    return [merged as Record<string, unknown>, label];
+  });
+}
+
+/**
+ * Parse a YAML test file into validated TestDefinitions. A file can hold
+ * several tests, as a `tests:` list or as `---`-separated documents. A test
+ * with `cases:` expands into one test per row, with `{{var}}` placeholders
+ * in `system_prompt` and `steps` filled from the row.
+ */
+export function parseTestFile(filePath: string): TestDefinition[] {
+  let loaded: ReturnType<typeof loadTestDocuments>;
   try {
-    raw = parseYaml(content) as Record<string, unknown>;
+    loaded = loadTestDocuments(filePath);
   } catch (err) {
-    throw new ParseError(filePath, `Invalid YAML: ${(err as Error).message}`);
+    if (err instanceof FixtureError) throw new ParseError(err.file, err.message);
+    throw err;
+  }
+  const { docs, fixtures } = loaded;
+
+  const tests: TestDefinition[] = [];
+  docs.forEach((doc, index) => {
+    inContext(docs.length > 1 ? `document ${index + 1}` : undefined, () => {
+      if (!isBlock(doc)) {
+        throw new ParseError(filePath, 'Test file must be a YAML object');
+      }
+      for (const [entry, label] of testEntries(doc, filePath)) {
+        tests.push(...inContext(label, () => expandCases(entry, filePath)));
+      }
+    });
+  });
+
+  // Results, cassettes and baselines identify tests by file and name
+  const names = new Set<string>();
+  for (const test of tests) {
+    if (names.has(test.name)) {
+      throw new ParseError(filePath, `Duplicate test name "${test.name}"; names must be unique within a file`);
+    }
+    names.add(test.name);
   }
 
-  if (!raw || typeof raw !== 'object') {
-    throw new ParseError(filePath, 'Test file must be a YAML object');
+  return fixtures.length > 0
+    ? tests.map(test => ({ ...test, fixtures: [...fixtures, ...(test.fixtures ?? [])] }))
+    : tests;
+}
+
+/** Build one test, or one per row when it has `cases:`. */
+function expandCases(raw: Record<string, unknown>, filePath: string): TestDefinition[] {
+  if (raw.cases === undefined) {
+    return [buildTest(raw, filePath)];
   }
 
+  let cases: ReturnType<typeof loadCases>;
+  try {
+    cases = loadCases(raw.cases, filePath);
+  } catch (err) {
+    throw new ParseError(filePath, (err as Error).message);
+  }
+  if (cases.rows.length === 0) {
+    throw new ParseError(filePath, '"cases" must contain at least one row');
+  }
+
+  // Captured values only exist at run time; leave their placeholders alone
+  const captured = captureNames(raw.steps);
+  const keep = (name: string) => isCaptureRef(captured, name);
+
+  return cases.rows.map((vars, index) => {
+    let rendered: Record<string, unknown>;
+    try {
+      rendered = {
+        ...raw,
+        system_prompt: renderTemplate(raw.system_prompt, vars),
+        steps: renderTemplate(raw.steps, vars, keep),
+      };
+    } catch (err) {
+      throw new ParseError(filePath, `cases[${index}]: ${(err as Error).message}`);
+    }
+
+    const test = buildTest(rendered, filePath, raw);
+    return {
+      ...test,
+      name: `${test.name} [${caseLabel(vars, index)}]`,
+      case: { index, vars, ...(cases.source ? { source: cases.source } : {}) },
+    };
+  });
+}
+
+/**
+ * Build a test from a loaded document. `template` is the document before
+ * case rendering; it tells which fixture file each part came from.
+ */
+function buildTest(raw: Record<string, unknown>, filePath: string, template: unknown = raw): TestDefinition {
+  const origin = (...path: Array<string | number>) => sourceOf(template, path, filePath);
+
   // Validate required fields
   if (!raw.name || typeof raw.name !== 'string') {
     throw new ParseError(filePath, '"name" is required and must be a string');
@@ -126,29 +478,82 @@ export function parseTestFile(filePath: string): TestDefinition {
     throw new ParseError(filePath, '"system_prompt" is required');
   }
 
+  // Local prompt files are resolved relative to the file that names them
+  let systemPrompt = raw.system_prompt as TestDefinition['system_prompt'];
+  if (typeof systemPrompt === 'object' && 'file' in systemPrompt) {
+    const promptSource = origin('system_prompt');
+    if (typeof systemPrompt.file !== 'string') {
+      throw new ParseError(promptSource, '"system_prompt.file" must be a string');
+    }
+    const promptFile = resolve(dirname(promptSource), systemPrompt.file);
+    if (!existsSync(promptFile)) {
+      throw new ParseError(promptSource, `system_prompt file not found: ${systemPrompt.file}`);
+    }
+    systemPrompt = { file: promptFile };
+  }
+
   if (!raw.steps || !Array.isArray(raw.steps) || raw.steps.length === 0) {
     throw new ParseError(filePath, '"steps" is required and must be a non-empty array');
   }
 
-  // Parse tools
+  // Parse tools; `{ openapi: … }` entries (or a single one in place of the list) import them
   const tools: ToolDefinition[] = [];
-  if (raw.tools && Array.isArray(raw.tools)) {
+  const specs: string[] = [];
+  if (isBlock(raw.tools) && 'openapi' in raw.tools) {
+    const imported = importOpenAPITools(raw.tools, origin('tools'), 'tools');
+    tools.push(...imported.tools);
+    specs.push(imported.spec);
+  } else if (raw.tools && Array.isArray(raw.tools)) {
     for (let i = 0; i < raw.tools.length; i++) {
-      tools.push(validateTool(raw.tools[i], filePath, i));
+      const tool: unknown = raw.tools[i];
+      if (isBlock(tool) && 'openapi' in tool) {
+        const imported = importOpenAPITools(tool, origin('tools', i), `tools[${i}]`);
+        tools.push(...imported.tools);
+        specs.push(imported.spec);
+      } else {
+        tools.push(validateTool(tool, origin('tools', i), i));
+      }
     }
   }
 
   // Parse steps
   const steps: TestStep[] = [];
   for (let i = 0; i < raw.steps.length; i++) {
-    steps.push(validateStep(raw.steps[i], filePath, i));
+    steps.push(validateStep(raw.steps[i], i, (...path) => origin('steps', i, ...path)));
+  }
+
+  // Repeat settings
+  if (raw.repeat !== undefined && (!Number.isInteger(raw.repeat) || (raw.repeat as number) < 1)) {
+    throw new ParseError(filePath, '"repeat" must be a positive integer');
+  }
+  if (
+    raw.min_pass_rate !== undefined &&
+    (typeof raw.min_pass_rate !== 'number' || raw.min_pass_rate < 0 || raw.min_pass_rate > 1)
+  ) {
+    throw new ParseError(filePath, '"min_pass_rate" must be a number between 0 and 1');
+  }
+
+  // Selection
+  if (raw.tags !== undefined && (!Array.isArray(raw.tags) || !raw.tags.every(tag => typeof tag === 'string'))) {
+    throw new ParseError(filePath, '"tags" must be a list of strings');
+  }
+  for (const key of ['only', 'skip']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      throw new ParseError(filePath, `"${key}" must be true or false`);
+    }
   }
 
   return {
     name: raw.name as string,
     provider: raw.provider as TestDefinition['provider'],
-    system_prompt: raw.system_prompt as TestDefinition['system_prompt'],
+    system_prompt: systemPrompt,
     tools,
     steps,
+    repeat: raw.repeat as number | undefined,
+    min_pass_rate: raw.min_pass_rate as number | undefined,
+    ...(raw.tags ? { tags: raw.tags as string[] } : {}),
+    ...(raw.only ? { only: true } : {}),
+    ...(raw.skip ? { skip: true } : {}),
+    ...(specs.length > 0 ? { fixtures: specs } : {}),
   };
 }
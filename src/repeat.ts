@@ -0,0 +1,143 @@
+import type {
+  Config,
+  TestDefinition,
+  TestResult,
+  Spread,
+  AssertionFailureCount,
+} from './types.js';
+import { executeTest, type ExecuteOptions } from './executor.js';
+
+/**
+ * Strip the "got …" part of an assertion message so failures of the same
+ * assertion group together even when the actual value differs between runs.
+ */
+function assertionKey(message: string): string {
+  return message.replace(/(,| —) got\b.*$/s, '');
+}
+
+function spread(values: number[]): Spread {
+  if (values.length === 0) return { min: 0, max: 0, mean: 0 };
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+  };
+}
+
+function countFailures(runs: TestResult[]): AssertionFailureCount[] {
+  const counts = new Map<string, AssertionFailureCount>();
+
+  const add = (message: string, step?: number) => {
+    const label = assertionKey(message);
+    const key = `${step ?? ''}::${label}`;
+    const entry = counts.get(key) ?? { step, message: label, failures: 0 };
+    entry.failures++;
+    counts.set(key, entry);
+  };
+
+  for (const run of runs) {
+    for (const step of run.steps) {
+      for (const a of step.assertions) {
+        if (!a.passed) add(a.message, step.stepIndex + 1);
+      }
+    }
+    for (const a of run.globalAssertions) {
+      if (!a.passed) add(a.message);
+    }
+    if (run.error) add(`Error: ${run.error}`);
+  }
+
+  return [...counts.values()].sort((a, b) => b.failures - a.failures);
+}
+
+/**
+ * Combine the results of repeated runs of one test. The test passes when
+ * its pass rate reaches `minPassRate`. Steps and assertions are taken from
+ * the first failing run (or the last run if all passed) so the report shows
+ * a concrete failure; tokens, cost and duration are totals across all runs.
+ */
+export function aggregateRuns(runs: TestResult[], minPassRate: number): TestResult {
+  const last = runs[runs.length - 1]!;
+  const representative = runs.find(r => !r.passed && !r.error) ?? runs.find(r => !r.passed) ?? last;
+  const passedRuns = runs.filter(r => r.passed).length;
+  const passRate = passedRuns / runs.length;
+  const allErrored = runs.every(r => !!r.error);
+
+  return {
+    name: last.name,
+    file: last.file,
+    ...(last.variant ? { variant: last.variant } : {}),
+    passed: passRate >= minPassRate,
+    ...(representative.systemPrompt !== undefined ? { systemPrompt: representative.systemPrompt } : {}),
+    steps: representative.steps,
+    globalAssertions: representative.globalAssertions,
+    totalTokens: runs.reduce((sum, r) => sum + r.totalTokens, 0),
+    estimatedCost: runs.reduce((sum, r) => sum + r.estimatedCost, 0),
+    durationMs: runs.reduce((sum, r) => sum + r.durationMs, 0),
+    turns: runs.reduce((sum, r) => sum + (r.turns ?? 0), 0),
+    ...(runs.some(r => r.judgeTokens) ? {
+      judgeTokens: runs.reduce((sum, r) => sum + (r.judgeTokens ?? 0), 0),
+      judgeCost: runs.reduce((sum, r) => sum + (r.judgeCost ?? 0), 0),
+    } : {}),
+    ...(runs.some(r => r.retries) ? { retries: runs.reduce((sum, r) => sum + (r.retries ?? 0), 0) } : {}),
+    error: allErrored ? representative.error : undefined,
+    repeat: {
+      runs: runs.length,
+      passedRuns,
+      passRate,
+      minPassRate,
+      flaky: passedRuns > 0 && passedRuns < runs.length,
+      assertionFailures: countFailures(runs),
+      tokens: spread(runs.map(r => r.totalTokens)),
+      cost: spread(runs.map(r => r.estimatedCost)),
+      durationMs: spread(runs.map(r => r.durationMs)),
+    },
+  };
+}
+
+/**
+ * Execute a test `runs` times in sequence and aggregate the results.
+ * Progress events are tagged with the run number.
+ */
+export async function executeRepeated(
+  test: TestDefinition,
+  config: Config,
+  filePath: string,
+  runs: number,
+  minPassRate: number,
+  options?: ExecuteOptions,
+): Promise<TestResult> {
+  const results: TestResult[] = [];
+
+  for (let run = 1; run <= runs; run++) {
+    const result = await executeTest(test, config, filePath, {
+      ...options,
+      onProgress: options?.onProgress
+        ? (event) => options.onProgress!({ ...event, run, runs })
+        : undefined,
+    });
+    results.push(result);
+
+    if (options?.signal?.aborted) break;
+  }
+
+  // A run cut short by --bail or the run budget says nothing about the test.
+  // It is left out of the stats, but its error and spend are kept so the
+  // runner can drop or mark the test like any other cut-short test.
+  const last = results[results.length - 1]!;
+  if (options?.signal?.aborted && last.error) {
+    const completed = results.slice(0, -1);
+    if (completed.length === 0) return last;
+    const aggregate = aggregateRuns(completed, minPassRate);
+    return {
+      ...aggregate,
+      passed: false,
+      totalTokens: aggregate.totalTokens + last.totalTokens,
+      estimatedCost: aggregate.estimatedCost + last.estimatedCost,
+      durationMs: aggregate.durationMs + last.durationMs,
+      error: last.error,
+    };
+  }
+
+  return aggregateRuns(results, minPassRate);
+}
@@ -1,6 +1,22 @@
 import chalk from 'chalk';
-import type { TestResult, RunResult, StepResult, AssertionResult, ProgressEvent } from './types.js';
+import { relative } from 'node:path';
+import type {
+  TestResult,
+  RunResult,
+  StepResult,
+  AssertionResult,
+  ProgressEvent,
+  RepeatStats,
+  Spread,
+  RetryInfo,
+  BaselineComparison,
+  ComparisonStatus,
+  MetricChange,
+  BudgetReport,
+  FileSummary,
+} from './types.js';
 import { formatCost, formatDuration } from './utils.js';
+import { meanLatency } from './matrix.js';
 
 // ── Spinner ─────────────────────────────────────────────────────────────────
 
@@ -48,6 +64,67 @@ class Spinner {
   }
 }
 
+// ── Status Board ────────────────────────────────────────────────────────────
+
+/**
+ * Multi-line spinner used when tests run concurrently: one line per running
+ * test, redrawn in place below everything printed so far. Without a TTY the
+ * board is not drawn and only finished output is printed.
+ */
+class StatusBoard {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private frameIdx = 0;
+  private lines = new Map<string, string>();
+  private renderedLines = 0;
+
+  set(key: string, text: string): void {
+    this.lines.set(key, text);
+    if (!this.interval && process.stderr.isTTY) {
+      this.interval = setInterval(() => this.render(), 80);
+    }
+  }
+
+  delete(key: string): void {
+    this.lines.delete(key);
+    if (this.lines.size === 0) {
+      this.stop();
+    }
+  }
+
+  /** Print output above the board without tearing it. */
+  print(msg: string): void {
+    this.clear();
+    process.stderr.write(msg);
+    if (this.interval) this.render();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.clear();
+  }
+
+  private render(): void {
+    this.clear();
+    const frame = chalk.cyan(SPINNER_FRAMES[this.frameIdx % SPINNER_FRAMES.length]);
+    const width = (process.stderr.columns ?? 80) - 5;
+    for (const text of this.lines.values()) {
+      process.stderr.write(`  ${frame} ${chalk.dim(truncate(text, width))}\n`);
+    }
+    this.renderedLines = this.lines.size;
+    this.frameIdx++;
+  }
+
+  private clear(): void {
+    if (this.renderedLines > 0) {
+      process.stderr.write(`\x1b[${this.renderedLines}A\x1b[0J`);
+      this.renderedLines = 0;
+    }
+  }
+}
+
 function stripAnsi(str: string): string {
   return str.replace(/\x1b\[[0-9;]*m/g, '');
 }
@@ -63,22 +140,88 @@ function live(msg: string): void {
   process.stderr.write(msg);
 }
 
+function formatRetry(retry: RetryInfo): string {
+  return `${retry.reason}, retrying in ${formatDuration(retry.delayMs)} (${retry.attempt}/${retry.retries})…`;
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatSpread(spread: Spread): string {
+  if (spread.min === spread.max) return spread.min.toLocaleString();
+  return `${spread.min.toLocaleString()}–${spread.max.toLocaleString()} (mean ${Math.round(spread.mean).toLocaleString()})`;
+}
+
+function testKey(file: string | undefined, name: string, variant?: string): string {
+  return `${file ?? ''}::${name}::${variant ?? ''}`;
+}
+
+/** Test name as shown in output, with the model label in matrix runs. */
+function displayName(name: string, variant?: string): string {
+  return variant ? `${name} [${variant}]` : name;
+}
+
+/**
+ * Totals per test file, in the order files first appear in the results.
+ */
+export function summarizeFiles(tests: TestResult[]): FileSummary[] {
+  const byFile = new Map<string, TestResult[]>();
+  for (const test of tests) {
+    byFile.set(test.file, [...(byFile.get(test.file) ?? []), test]);
+  }
+  return [...byFile].map(([file, results]) => {
+    const skipped = results.filter(r => r.skipped).length;
+    return {
+      file,
+      passed: results.filter(r => r.passed).length,
+      failed: results.filter(r => !r.passed && !r.error && !r.skipped).length,
+      errors: results.filter(r => !!r.error).length,
+      ...(skipped > 0 ? { skipped } : {}),
+      total: results.length,
+      duration_ms: results.reduce((sum, r) => sum + r.durationMs, 0),
+    };
+  });
+}
+
 // ── Live Reporter ───────────────────────────────────────────────────────────
 
 export class LiveReporter {
   private spinner = new Spinner();
+  private board = new StatusBoard();
   private verbose: boolean;
+  private parallel: boolean;
   private stepStartTime = 0;
-
-  constructor(verbose: boolean) {
+  private stepStartTimes = new Map<string, number>();
+  private buffers = new Map<string, string[]>();
+  /** File of the last test printed; a header is printed when it changes */
+  private lastFile?: string;
+
+  /**
+   * In parallel mode each running test gets a status line, and a test's
+   * step output is buffered and printed in one block when the test ends.
+   */
+  constructor(verbose: boolean, parallel = false) {
     this.verbose = verbose;
+    this.parallel = parallel;
   }
 
   handleEvent(event: ProgressEvent): void {
+    if (this.parallel) {
+      this.handleParallelEvent(event);
+      return;
+    }
+
+    // Repeated tests print one aggregated block at the end instead of per-step lines
+    const repeated = (event.runs ?? 1) > 1;
+    const run = repeated ? `Run ${event.run}/${event.runs} · ` : '';
+
     switch (event.type) {
       case 'test:start':
-        live(`\n  ${chalk.bold.white(event.testName)}\n`);
-        live(`  ${chalk.dim('─'.repeat(Math.min(event.testName.length + 4, 60)))}\n`);
+        if ((event.run ?? 1) === 1) {
+          live(this.fileHeader(event.file));
+          this.printTestStart(displayName(event.testName, event.variant), live);
+        }
         break;
 
       case 'step:start': {
@@ -86,109 +229,243 @@ export class LiveReporter {
         const label = event.userMessage
           ? chalk.white(`"${truncate(event.userMessage, 50)}"`)
           : chalk.dim('(processing tool result)');
-        this.spinner.start(`Step ${(event.stepIndex ?? 0) + 1}: ${stripAnsi(label)} — waiting for LLM…`);
+        this.spinner.start(`${run}Step ${(event.stepIndex ?? 0) + 1}: ${stripAnsi(label)} — waiting for LLM…`);
         break;
       }
 
       case 'step:llm_call':
-        this.spinner.update(`Step ${(event.stepIndex ?? 0) + 1} — calling LLM…`);
+        this.spinner.update(`${run}Step ${(event.stepIndex ?? 0) + 1} — calling LLM…`);
         break;
 
       case 'step:tool_calls': {
         const tools = event.toolNames?.join(', ') ?? '';
-        this.spinner.update(`Step ${(event.stepIndex ?? 0) + 1} — called ${chalk.yellow(tools)}, injecting mocks…`);
+        this.spinner.update(`${run}Step ${(event.stepIndex ?? 0) + 1} — called ${chalk.yellow(tools)}, injecting mocks…`);
         break;
       }
 
       case 'step:mock_inject':
-        this.spinner.update(`Step ${(event.stepIndex ?? 0) + 1} — processing tool results…`);
+        this.spinner.update(`${run}Step ${(event.stepIndex ?? 0) + 1} — processing tool results…`);
+        break;
+
+      case 'step:judge':
+        this.spinner.update(`${run}Step ${(event.stepIndex ?? 0) + 1} — judging response…`);
+        break;
+
+      case 'step:retry':
+        this.spinner.update(`${run}Step ${(event.stepIndex ?? 0) + 1} — ${formatRetry(event.retry!)}`);
         break;
 
       case 'step:complete': {
         this.spinner.stop();
-        const step = event.step;
-        if (!step) break;
-
-        const elapsed = Date.now() - this.stepStartTime;
-        const timeStr = chalk.dim(`${formatDuration(elapsed)}`);
-        const stepNum = chalk.dim(`${step.stepIndex + 1}`);
-
-        if (step.passed) {
-          const userLabel = step.userMessage
-            ? `"${truncate(step.userMessage, 45)}"`
-            : '(continued)';
-          live(`  ${chalk.green('●')} ${chalk.dim('Step')} ${stepNum}  ${chalk.green('pass')}  ${timeStr}  ${chalk.dim(userLabel)}\n`);
-
-          if (this.verbose) {
-            this.printStepDetails(step);
-          }
-        } else {
-          const userLabel = step.userMessage
-            ? `"${truncate(step.userMessage, 45)}"`
-            : '(continued)';
-          live(`  ${chalk.red('✘')} ${chalk.dim('Step')} ${stepNum}  ${chalk.red('FAIL')}  ${timeStr}  ${chalk.dim(userLabel)}\n`);
-          this.printFailedAssertions(step);
-
-          if (this.verbose) {
-            this.printStepDetails(step);
-          }
+        if (event.step && !repeated) {
+          this.printStepResult(event.step, Date.now() - this.stepStartTime, live);
         }
         break;
       }
     }
   }
 
-  private printFailedAssertions(step: StepResult): void {
+  private handleParallelEvent(event: ProgressEvent): void {
+    const key = testKey(event.file, event.testName, event.variant);
+    const name = displayName(event.testName, event.variant);
+    const repeated = (event.runs ?? 1) > 1;
+    const step = `${repeated ? `Run ${event.run}/${event.runs} · ` : ''}Step ${(event.stepIndex ?? 0) + 1}`;
+    const write = (msg: string) => this.buffers.get(key)?.push(msg);
+
+    switch (event.type) {
+      case 'test:start':
+        if ((event.run ?? 1) === 1) {
+          this.buffers.set(key, []);
+          this.printTestStart(name, write);
+        }
+        this.board.set(key, `${name} — starting…`);
+        break;
+
+      case 'step:start':
+        this.stepStartTimes.set(key, Date.now());
+        this.board.set(key, `${name} — ${step}: waiting for LLM…`);
+        break;
+
+      case 'step:llm_call':
+        this.board.set(key, `${name} — ${step}: calling LLM…`);
+        break;
+
+      case 'step:tool_calls':
+        this.board.set(key, `${name} — ${step}: called ${event.toolNames?.join(', ') ?? ''}`);
+        break;
+
+      case 'step:mock_inject':
+        this.board.set(key, `${name} — ${step}: processing tool results…`);
+        break;
+
+      case 'step:judge':
+        this.board.set(key, `${name} — ${step}: judging response…`);
+        break;
+
+      case 'step:retry':
+        this.board.set(key, `${name} — ${step}: ${formatRetry(event.retry!)}`);
+        break;
+
+      case 'step:complete':
+        if (event.step && !repeated) {
+          const elapsed = Date.now() - (this.stepStartTimes.get(key) ?? Date.now());
+          this.printStepResult(event.step, elapsed, write);
+        }
+        break;
+    }
+  }
+
+  /** Header for a test file, when output moves on to a new one. */
+  private fileHeader(file: string | undefined): string {
+    if (!file || file === this.lastFile) return '';
+    this.lastFile = file;
+    return `\n  ${chalk.hex('#7C5CFC')('▌')}${chalk.bold(relative(process.cwd(), file) || file)}\n`;
+  }
+
+  private printTestStart(name: string, write: (msg: string) => void): void {
+    write(`\n  ${chalk.bold.white(name)}\n`);
+    write(`  ${chalk.dim('─'.repeat(Math.min(name.length + 4, 60)))}\n`);
+  }
+
+  private printStepResult(step: StepResult, elapsed: number, write: (msg: string) => void): void {
+    const ttft = step.timings?.[0]?.ttftMs;
+    const timeStr = chalk.dim(`${formatDuration(elapsed)}${ttft !== undefined ? ` · ttft ${formatDuration(ttft)}` : ''}`);
+    const stepNum = chalk.dim(`${step.stepIndex + 1}`);
+    const userLabel = step.userMessage
+      ? `"${truncate(step.userMessage, 45)}"`
+      : '(continued)';
+
+    if (step.passed) {
+      write(`  ${chalk.green('●')} ${chalk.dim('Step')} ${stepNum}  ${chalk.green('pass')}  ${timeStr}  ${chalk.dim(userLabel)}\n`);
+    } else {
+      write(`  ${chalk.red('✘')} ${chalk.dim('Step')} ${stepNum}  ${chalk.red('FAIL')}  ${timeStr}  ${chalk.dim(userLabel)}\n`);
+      this.printFailedAssertions(step, write);
+    }
+
+    if (this.verbose) {
+      this.printStepDetails(step, write);
+    }
+  }
+
+  private printFailedAssertions(step: StepResult, write: (msg: string) => void): void {
     for (const a of step.assertions) {
       if (!a.passed) {
-        live(`    ${chalk.red('└')} ${chalk.red(a.message)}\n`);
+        write(`    ${chalk.red('└')} ${chalk.red(a.message)}\n`);
       }
     }
   }
 
-  private printStepDetails(step: StepResult): void {
+  private printStepDetails(step: StepResult, write: (msg: string) => void): void {
     // Show all assertions
     for (const a of step.assertions) {
       const icon = a.passed ? chalk.green('✓') : chalk.red('✗');
       const msg = a.passed ? chalk.dim(a.message) : chalk.red(a.message);
-      live(`    ${chalk.dim('│')} ${icon} ${msg}\n`);
+      write(`    ${chalk.dim('│')} ${icon} ${msg}\n`);
+    }
+
+    // Per-turn latency
+    if (step.timings && step.timings.length > 1) {
+      const turns = step.timings.map(t =>
+        t.ttftMs !== undefined ? `${formatDuration(t.latencyMs)} (ttft ${formatDuration(t.ttftMs)})` : formatDuration(t.latencyMs),
+      );
+      write(`    ${chalk.dim('│')} ${chalk.dim(`Turns: ${turns.join(', ')}`)}\n`);
     }
 
     // Tool calls
     if (step.toolCalls.length > 0) {
       for (const tc of step.toolCalls) {
-        live(`    ${chalk.dim('│')} ${chalk.yellow('▸')} ${chalk.yellow(tc.function.name)}${chalk.dim('(')}${chalk.dim(truncate(tc.function.arguments, 60))}${chalk.dim(')')}\n`);
+        write(`    ${chalk.dim('│')} ${chalk.yellow('▸')} ${chalk.yellow(tc.function.name)}${chalk.dim('(')}${chalk.dim(truncate(tc.function.arguments, 60))}${chalk.dim(')')}\n`);
       }
     }
 
+    // Captured values
+    for (const [name, value] of Object.entries(step.captures ?? {})) {
+      write(`    ${chalk.dim('│')} ${chalk.cyan('⇢')} ${chalk.cyan(name)} ${chalk.dim('=')} ${chalk.dim(truncate(typeof value === 'string' ? value : JSON.stringify(value), 60))}\n`);
+    }
+
     // Response
     if (step.assistantResponse) {
-      live(`    ${chalk.dim('│')} ${chalk.dim('⚡')} ${chalk.dim(truncate(step.assistantResponse, 80))}\n`);
+      write(`    ${chalk.dim('│')} ${chalk.dim('⚡')} ${chalk.dim(truncate(step.assistantResponse, 80))}\n`);
     }
 
-    live(`    ${chalk.dim('│')}\n`);
+    write(`    ${chalk.dim('│')}\n`);
   }
 
   printTestEnd(test: TestResult): void {
+    // A test that errors mid-step never sends step:complete
+    this.spinner.stop();
+    const key = testKey(test.file, test.name, test.variant);
+    const buffer = this.parallel ? this.buffers.get(key) ?? [] : undefined;
+    const write = buffer ? (msg: string) => buffer.push(msg) : live;
+
     if (test.error) {
-      live(`\n  ${chalk.red('✘')} ${chalk.red('Error:')} ${test.error}\n`);
+      write(`\n  ${chalk.red('✘')} ${chalk.red('Error:')} ${test.error}\n`);
     }
 
     // Global assertions
     if (test.globalAssertions.length > 0) {
-      live(`  ${chalk.dim('─')}\n`);
+      write(`  ${chalk.dim('─')}\n`);
       for (const a of test.globalAssertions) {
         const icon = a.passed ? chalk.green('●') : chalk.red('✘');
-        live(`  ${icon} ${a.passed ? chalk.dim(a.message) : chalk.red(a.message)}\n`);
+        write(`  ${icon} ${a.passed ? chalk.dim(a.message) : chalk.red(a.message)}\n`);
       }
     }
 
+    if (test.repeat) {
+      this.printRepeatStats(test.repeat, write);
+    }
+
     const icon = test.passed ? chalk.green('✓') : chalk.red('✗');
     const status = test.passed ? chalk.green('PASSED') : chalk.red('FAILED');
+    const judge = test.judgeTokens
+      ? ` · judge ${test.judgeTokens.toLocaleString()} tokens · ~${formatCost(test.judgeCost ?? 0)}`
+      : '';
+    const retries = test.retries ? ` · ${test.retries} ${test.retries === 1 ? 'retry' : 'retries'}` : '';
     const meta = chalk.dim(
-      `${formatDuration(test.durationMs)} · ${test.totalTokens.toLocaleString()} tokens · ~${formatCost(test.estimatedCost)}`,
+      `${formatDuration(test.durationMs)} · ${test.totalTokens.toLocaleString()} tokens · ~${formatCost(test.estimatedCost)}${judge}${retries}`,
     );
-    live(`\n  ${icon} ${status} ${meta}\n`);
+    write(`\n  ${icon} ${status} ${meta}\n`);
+
+    if (buffer) {
+      this.board.delete(key);
+      this.buffers.delete(key);
+      this.stepStartTimes.delete(key);
+      this.board.print(this.fileHeader(test.file) + buffer.join(''));
+    }
+  }
+
+  private printRepeatStats(stats: RepeatStats, write: (msg: string) => void): void {
+    const rateColor = stats.passRate >= stats.minPassRate ? chalk.green : chalk.red;
+    const flaky = stats.flaky ? `  ${chalk.yellow('flaky')}` : '';
+    write(`  ${chalk.dim('Runs')}    ${rateColor(`${stats.passedRuns}/${stats.runs} passed`)} ${chalk.dim(`(${formatPercent(stats.passRate)} · min ${formatPercent(stats.minPassRate)})`)}${flaky}\n`);
+
+    for (const f of stats.assertionFailures.slice(0, 5)) {
+      const where = f.step !== undefined ? `Step ${f.step}: ` : '';
+      write(`    ${chalk.red('└')} ${chalk.red(`${f.failures}×`)} ${chalk.red(`${where}${f.message}`)}\n`);
+    }
+    if (stats.assertionFailures.length > 5) {
+      write(`    ${chalk.dim(`└ … ${stats.assertionFailures.length - 5} more`)}\n`);
+    }
+
+    write(`  ${chalk.dim('Tokens')}  ${chalk.dim(`${formatSpread(stats.tokens)} per run · ~${formatCost(stats.cost.mean)} mean cost`)}\n`);
+  }
+
+  printSkipped(test: TestResult): void {
+    const line = `${this.fileHeader(test.file)}\n  ${chalk.yellow('○')} ${chalk.dim(displayName(test.name, test.variant))} ${chalk.yellow('skipped')}\n`;
+    if (this.parallel) {
+      this.board.print(line);
+    } else {
+      live(line);
+    }
+  }
+
+  /** Drop progress for a test that was cancelled before it finished. */
+  discardTest(test: TestResult): void {
+    this.spinner.stop();
+    const key = testKey(test.file, test.name, test.variant);
+    this.board.delete(key);
+    this.buffers.delete(key);
+    this.stepStartTimes.delete(key);
   }
 
   printHeader(): void {
@@ -196,8 +473,14 @@ export class LiveReporter {
   }
 
   printSummary(result: RunResult): void {
+    this.board.stop();
     live(`\n  ${chalk.dim('━'.repeat(50))}\n\n`);
 
+    const files = result.files ?? summarizeFiles(result.tests);
+    if (files.length > 1) {
+      this.printFiles(files);
+    }
+
     const passedStr = result.summary.passed > 0
       ? chalk.green(`${result.summary.passed} passed`)
       : '';
@@ -207,11 +490,198 @@ export class LiveReporter {
     const errorStr = result.summary.errors > 0
       ? chalk.yellow(`${result.summary.errors} error(s)`)
       : '';
-    const parts = [passedStr, failedStr, errorStr].filter(Boolean);
+    const skippedStr = result.summary.skipped
+      ? chalk.dim(`${result.summary.skipped} skipped`)
+      : '';
+    const cancelledStr = result.summary.cancelled
+      ? chalk.yellow(`${result.summary.cancelled} cancelled`)
+      : '';
+    const parts = [passedStr, failedStr, errorStr, skippedStr, cancelledStr].filter(Boolean);
 
     live(`  ${chalk.bold('Tests')}     ${parts.join(chalk.dim(' · '))} ${chalk.dim(`(${result.summary.total} total)`)}\n`);
     live(`  ${chalk.bold('Duration')}  ${formatDuration(result.duration_ms)}\n`);
     live(`  ${chalk.bold('Tokens')}    ${result.tokens.total.toLocaleString()} ${chalk.dim(`(~${formatCost(result.tokens.cost_usd)})`)}\n`);
+    if (result.tokens.judge) {
+      live(`  ${chalk.bold('Judge')}     ${result.tokens.judge.total.toLocaleString()} ${chalk.dim(`(~${formatCost(result.tokens.judge.cost_usd)})`)}\n`);
+    }
+    if (result.summary.retries) {
+      live(`  ${chalk.bold('Retries')}   ${chalk.yellow(result.summary.retries)} ${chalk.dim('(rate limits / transient errors)')}\n`);
+    }
+    if (result.budget) {
+      this.printBudget(result.budget);
+    }
+    live('\n');
+
+    const repeated = result.tests.filter(t => t.repeat);
+    if (repeated.length > 0) {
+      this.printFlakinessTable(repeated);
+    }
+
+    if (result.matrix) {
+      this.printMatrixTable(result);
+    }
+
+    if (result.comparison) {
+      this.printComparison(result.comparison);
+    }
+  }
+
+  /** One line per test file with its results. */
+  private printFiles(files: FileSummary[]): void {
+    const paths = files.map(f => relative(process.cwd(), f.file) || f.file);
+    const width = Math.min(Math.max(...paths.map(p => p.length)), 50);
+    files.forEach((f, i) => {
+      const ok = f.failed === 0 && f.errors === 0;
+      const counts = [
+        f.passed > 0 ? chalk.green(`${f.passed} passed`) : '',
+        f.failed > 0 ? chalk.red(`${f.failed} failed`) : '',
+        f.errors > 0 ? chalk.yellow(`${f.errors} error(s)`) : '',
+        f.skipped ? chalk.dim(`${f.skipped} skipped`) : '',
+      ].filter(Boolean);
+      const icon = ok ? chalk.green('✓') : chalk.red('✗');
+      live(`  ${icon} ${truncate(paths[i]!, width).padEnd(width)}  ${counts.join(chalk.dim(' · '))} ${chalk.dim(formatDuration(f.duration_ms))}\n`);
+    });
+    live('\n');
+  }
+
+  /** Which limit stopped the run, and the tests it cancelled or never started. */
+  private printBudget(budget: BudgetReport): void {
+    const spent = budget.exceeded === 'cost'
+      ? `~${formatCost(budget.cost_usd)} of $${budget.limit.toFixed(2)}`
+      : `${budget.tokens.toLocaleString()} of ${budget.limit.toLocaleString()} tokens`;
+    const counts = [
+      `${budget.aborted} aborted`,
+      `${budget.not_run.length} not run`,
+    ];
+    live(`  ${chalk.bold('Budget')}    ${chalk.red(`exceeded (${spent})`)} ${chalk.dim(counts.join(' · '))}\n`);
+    for (const t of budget.not_run.slice(0, 10)) {
+      live(`    ${chalk.dim('└')} ${chalk.dim(`not run: ${displayName(t.name, t.variant)}`)}\n`);
+    }
+    if (budget.not_run.length > 10) {
+      live(`    ${chalk.dim(`└ … ${budget.not_run.length - 10} more`)}\n`);
+    }
+  }
+
+  /**
+   * Per-test changes against the `--compare` baseline, then a one-line tally.
+   * Tests from the baseline that did not run are only counted.
+   */
+  private printComparison(comparison: BaselineComparison): void {
+    const compared = comparison.tests.filter(t => t.status !== 'missing');
+    const nameWidth = Math.min(Math.max(...compared.map(t => displayName(t.name, t.variant).length), 4), 40);
+    const pct = (change: MetricChange | undefined) => {
+      if (!change || change.change_pct === null) return '—';
+      const rounded = Math.round(change.change_pct);
+      return rounded === 0 ? '0%' : `${rounded > 0 ? '+' : ''}${rounded}%`;
+    };
+    const statusLabel: Record<ComparisonStatus, [string, (s: string) => string]> = {
+      passing: ['pass', chalk.dim],
+      failing: ['FAIL', chalk.dim],
+      broken: ['broken', chalk.red],
+      fixed: ['fixed', chalk.green],
+      new: ['new', chalk.cyan],
+      missing: ['', chalk.dim],
+    };
+
+    const header = `${'Test'.padEnd(nameWidth)}  ${'Status'.padEnd(6)}  ${'Tokens'.padStart(7)}  ${'Cost'.padStart(7)}  ${'Turns'.padStart(7)}  ${'Duration'.padStart(8)}`;
+    live(`  ${chalk.bold(header)}\n`);
+    for (const t of compared) {
+      const [status, color] = statusLabel[t.status];
+      const row = [
+        truncate(displayName(t.name, t.variant), nameWidth).padEnd(nameWidth),
+        color(status.padEnd(6)),
+        pct(t.tokens).padStart(7),
+        pct(t.cost_usd).padStart(7),
+        pct(t.turns).padStart(7),
+        pct(t.duration_ms).padStart(8),
+      ];
+      live(`  ${row.join('  ')}\n`);
+      for (const regression of t.regressions) {
+        live(`    ${chalk.red('└')} ${chalk.red(`Regression: ${regression}`)}\n`);
+      }
+    }
+
+    const missing = comparison.tests.length - compared.length;
+    const parts = [
+      comparison.broken > 0 ? chalk.red(`${comparison.broken} broken`) : '',
+      comparison.fixed > 0 ? chalk.green(`${comparison.fixed} fixed`) : '',
+      comparison.regressions > 0 ? chalk.red(`${comparison.regressions} regressed`) : '',
+      missing > 0 ? chalk.dim(`${missing} not run`) : '',
+    ].filter(Boolean);
+    const since = chalk.dim(`(baseline from ${comparison.baseline_created_at})`);
+    live(`\n  ${chalk.bold('Baseline')}  ${parts.length > 0 ? parts.join(chalk.dim(' · ')) : chalk.green('no changes')} ${since}\n\n`);
+  }
+
+  /**
+   * Side-by-side comparison of each test across the matrix models, followed
+   * by per-model totals.
+   */
+  private printMatrixTable(result: RunResult): void {
+    const labels = result.matrix!.map(m => m.variant);
+    const nameWidth = Math.min(Math.max(...result.tests.map(t => t.name.length), 5), 40);
+    const modelWidth = Math.min(Math.max(...labels.map(l => l.length), 5), 30);
+    const latency = (ms: number | undefined) => (ms === undefined ? '—' : formatDuration(Math.round(ms)));
+
+    const header = `${'Test'.padEnd(nameWidth)}  ${'Model'.padEnd(modelWidth)}  ${'Result'.padEnd(6)}  ${'Tokens'.padStart(8)}  ${'Cost'.padStart(9)}  ${'Latency'.padStart(8)}`;
+    live(`  ${chalk.bold(header)}\n`);
+
+    // Group rows by test, keeping the order tests ran in
+    const byTest = new Map<string, TestResult[]>();
+    for (const t of result.tests) {
+      const key = testKey(t.file, t.name);
+      byTest.set(key, [...(byTest.get(key) ?? []), t]);
+    }
+
+    for (const tests of byTest.values()) {
+      tests.forEach((t, i) => {
+        const status = t.skipped
+          ? chalk.dim('skip  ')
+          : t.error ? chalk.yellow('error ') : t.passed ? chalk.green('pass  ') : chalk.red('FAIL  ');
+        const row = [
+          (i === 0 ? truncate(t.name, nameWidth) : '').padEnd(nameWidth),
+          truncate(t.variant ?? '', modelWidth).padEnd(modelWidth),
+          status,
+          t.totalTokens.toLocaleString().padStart(8),
+          `~${formatCost(t.estimatedCost)}`.padStart(9),
+          latency(meanLatency(t)).padStart(8),
+        ];
+        live(`  ${row.join('  ')}\n`);
+      });
+    }
+
+    live(`  ${chalk.dim('─'.repeat(header.length))}\n`);
+    result.matrix!.forEach((m, i) => {
+      const passed = `${m.passed}/${m.total}`.padEnd(6);
+      const row = [
+        (i === 0 ? 'Total' : '').padEnd(nameWidth),
+        truncate(m.variant, modelWidth).padEnd(modelWidth),
+        m.passed === m.total ? chalk.green(passed) : chalk.red(passed),
+        m.tokens.toLocaleString().padStart(8),
+        `~${formatCost(m.cost_usd)}`.padStart(9),
+        latency(m.latency_ms).padStart(8),
+      ];
+      live(`  ${chalk.bold(row.join('  '))}\n`);
+    });
+    live('\n');
+  }
+
+  private printFlakinessTable(tests: TestResult[]): void {
+    const nameWidth = Math.min(Math.max(...tests.map(t => displayName(t.name, t.variant).length), 4), 40);
+    const header = `${'Test'.padEnd(nameWidth)}  ${'Runs'.padStart(5)}  ${'Pass rate'.padStart(9)}  ${'Flaky'.padEnd(5)}  Tokens/run`;
+    live(`  ${chalk.bold(header)}\n`);
+
+    for (const t of tests) {
+      const stats = t.repeat!;
+      const rate = formatPercent(stats.passRate).padStart(9);
+      const row = [
+        truncate(displayName(t.name, t.variant), nameWidth).padEnd(nameWidth),
+        `${stats.passedRuns}/${stats.runs}`.padStart(5),
+        t.passed ? chalk.green(rate) : chalk.red(rate),
+        stats.flaky ? chalk.yellow('yes'.padEnd(5)) : chalk.dim('no'.padEnd(5)),
+        chalk.dim(formatSpread(stats.tokens)),
+      ];
+      live(`  ${row.join('  ')}\n`);
+    }
     live('\n');
   }
 }
@@ -222,18 +692,128 @@ export function reportJSON(result: RunResult): string {
   return JSON.stringify(result, null, 2);
 }
 
+// ── JUnit Reporter ──────────────────────────────────────────────────────────
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function junitTestCase(test: TestResult): string[] {
+  const lines: string[] = [];
+  const classname = escapeXml(relative(process.cwd(), test.file) || test.file);
+  lines.push(`    <testcase name="${escapeXml(displayName(test.name, test.variant))}" classname="${classname}" time="${seconds(test.durationMs)}">`);
+
+  const properties: Array<[string, string | number]> = [
+    ['tokens', test.totalTokens],
+    ['cost_usd', test.estimatedCost],
+    ['duration_ms', test.durationMs],
+    ['steps', test.steps.length],
+  ];
+  if (test.judgeTokens) {
+    properties.push(['judge_tokens', test.judgeTokens], ['judge_cost_usd', test.judgeCost ?? 0]);
+  }
+  if (test.retries) {
+    properties.push(['retries', test.retries]);
+  }
+  if (test.repeat) {
+    properties.push(
+      ['runs', test.repeat.runs],
+      ['pass_rate', test.repeat.passRate],
+      ['min_pass_rate', test.repeat.minPassRate],
+      ['flaky', String(test.repeat.flaky)],
+    );
+  }
+  lines.push('      <properties>');
+  for (const [name, value] of properties) {
+    lines.push(`        <property name="${name}" value="${escapeXml(String(value))}"/>`);
+  }
+  lines.push('      </properties>');
+
+  for (const step of test.steps) {
+    for (const a of step.assertions) {
+      if (a.passed) continue;
+      const message = `Step ${step.stepIndex + 1}: ${a.message}`;
+      const detail = step.userMessage ? `User: ${step.userMessage}\n${a.message}` : a.message;
+      lines.push(`      <failure message="${escapeXml(message)}" type="AssertionError">${escapeXml(detail)}</failure>`);
+    }
+  }
+  for (const a of test.globalAssertions) {
+    if (!a.passed) {
+      lines.push(`      <failure message="${escapeXml(a.message)}" type="AssertionError">${escapeXml(a.message)}</failure>`);
+    }
+  }
+  if (test.repeat && !test.passed && !test.error) {
+    const message = `Pass rate ${formatPercent(test.repeat.passRate)} is below ${formatPercent(test.repeat.minPassRate)}`;
+    lines.push(`      <failure message="${escapeXml(message)}" type="PassRateError">${escapeXml(message)}</failure>`);
+  }
+  if (test.error) {
+    lines.push(`      <error message="${escapeXml(test.error)}" type="Error">${escapeXml(test.error)}</error>`);
+  }
+  if (test.skipped) {
+    lines.push('      <skipped/>');
+  }
+
+  lines.push('    </testcase>');
+  return lines;
+}
+
+/**
+ * Render results as JUnit XML: one <testsuite> per test file, one <testcase>
+ * per test, and one <failure> per failed assertion. Token and cost data go
+ * into <properties>.
+ */
+export function reportJUnit(result: RunResult): string {
+  const byFile = new Map<string, TestResult[]>();
+  for (const test of result.tests) {
+    byFile.set(test.file, [...(byFile.get(test.file) ?? []), test]);
+  }
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(
+    `<testsuites name="promptman-test" tests="${result.summary.total}" failures="${result.summary.failed}" errors="${result.summary.errors}" skipped="${result.summary.skipped ?? 0}" time="${seconds(result.duration_ms)}">`,
+  );
+
+  for (const [file, tests] of byFile) {
+    const failures = tests.filter(t => !t.passed && !t.error && !t.skipped).length;
+    const errors = tests.filter(t => !!t.error).length;
+    const skipped = tests.filter(t => t.skipped).length;
+    const time = tests.reduce((sum, t) => sum + t.durationMs, 0);
+    const name = escapeXml(relative(process.cwd(), file) || file);
+    lines.push(`  <testsuite name="${name}" tests="${tests.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${seconds(time)}">`);
+    for (const test of tests) {
+      lines.push(...junitTestCase(test));
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
 // ── Dry Run Reporter ────────────────────────────────────────────────────────
 
 export function reportDryRun(
-  files: Array<{ file: string; test: { name: string; steps: unknown[]; tools?: unknown[] } }>,
+  files: Array<{ file: string; test: { name: string; steps: unknown[]; tools?: unknown[] }; skipped?: boolean }>,
 ): string {
   const lines: string[] = [];
   lines.push('');
   lines.push(`  ${chalk.bold.hex('#7C5CFC')('promptman-test')} ${chalk.dim('dry run')}`);
   lines.push('');
 
-  for (const { file, test } of files) {
-    lines.push(`  ${chalk.cyan('○')} ${chalk.white(test.name)}`);
+  for (const { file, test, skipped } of files) {
+    lines.push(`  ${chalk.cyan('○')} ${chalk.white(test.name)}${skipped ? ` ${chalk.yellow('skipped')}` : ''}`);
     lines.push(chalk.dim(`    ${test.steps.length} step(s) · ${test.tools?.length ?? 0} tool(s) · ${file}`));
   }
 
@@ -0,0 +1,154 @@
+import type { RetryInfo } from './types.js';
+
+// ── Retries ─────────────────────────────────────────────────────────────────
+
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_RETRY_DELAY = 1000;
+
+/** Upper bound for computed backoff delays. */
+const MAX_BACKOFF_MS = 30_000;
+/** Upper bound for server-provided Retry-After delays. */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** Rate limits, timeouts and transient server errors (529 = Anthropic overloaded). */
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * A non-OK HTTP response from an LLM provider.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date.
+ * Returns the delay in milliseconds, or undefined if absent or invalid.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Build a ProviderError from a failed response, keeping the start of the body
+ * for context and the Retry-After delay for the retry loop.
+ */
+export async function providerError(response: Response): Promise<ProviderError> {
+  const errorBody = await response.text().catch(() => '');
+  return new ProviderError(
+    `LLM API error: ${response.status} ${response.statusText}${errorBody ? ` — ${errorBody.slice(0, 500)}` : ''}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after')),
+  );
+}
+
+/** Error codes of dropped or refused connections, from Node sockets and undici. */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'ETIMEDOUT',
+  'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CLOSED', 'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * The network error code behind a failure, if any. fetch() rejects with a
+ * TypeError whose `cause` is the socket or undici error carrying the code.
+ */
+function networkErrorCode(error: unknown): string | undefined {
+  let current = error;
+  for (let depth = 0; current instanceof Error && depth < 5; depth++) {
+    const code = (current as Error & { code?: unknown }).code;
+    if (typeof code === 'string') return code;
+    current = current.cause;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a failed call is worth retrying: retryable HTTP statuses and network
+ * failures. Timeouts, cancellations and other errors (e.g. a TypeError from a
+ * malformed response) are not retried.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return RETRYABLE_STATUS.has(error.status);
+  }
+  const code = networkErrorCode(error);
+  return code !== undefined && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Exponential backoff with jitter: attempt n waits between half and all of
+ * `baseDelay * 2^(n-1)`, capped at 30s.
+ */
+export function backoffDelay(attempt: number, baseDelay: number, random = Math.random): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, baseDelay * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelay: number;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function retryReason(error: unknown): string {
+  if (error instanceof ProviderError) {
+    return error.status === 429 ? 'rate limited (429)' : `provider error (${error.status})`;
+  }
+  return `network error (${(error as Error).message})`;
+}
+
+/**
+ * Call `fn`, retrying retryable failures up to `retries` times. A server's
+ * Retry-After delay takes precedence over the computed backoff.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > options.retries || !isRetryable(error) || options.signal?.aborted) {
+        throw error;
+      }
+
+      const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined;
+      const delayMs = retryAfter !== undefined
+        ? Math.min(retryAfter, MAX_RETRY_AFTER_MS)
+        : backoffDelay(attempt, options.baseDelay);
+
+      options.onRetry?.({ attempt, retries: options.retries, delayMs, reason: retryReason(error) });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
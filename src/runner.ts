@@ -1,11 +1,26 @@
 import { resolve } from 'node:path';
-import { statSync } from 'node:fs';
+import { statSync, writeFileSync } from 'node:fs';
 import { glob } from 'glob';
-import type { Config, CLIOptions, RunResult, TestDefinition } from './types.js';
+import type {
+  Config,
+  CLIOptions,
+  RunResult,
+  TestDefinition,
+  TestResult,
+  CassetteMode,
+  ReporterFormat,
+} from './types.js';
 import { loadConfig } from './config.js';
 import { parseTestFile } from './parser.js';
-import { executeTest } from './executor.js';
-import { LiveReporter, reportJSON, reportDryRun } from './reporter.js';
+import { executeTest, type ExecuteOptions } from './executor.js';
+import { executeRepeated } from './repeat.js';
+import { LiveReporter, reportJSON, reportJUnit, reportDryRun, summarizeFiles } from './reporter.js';
+import { reportHTML } from './html.js';
+import { loadBaseline, saveBaseline, compareBaseline } from './baseline.js';
+import { trackBudget } from './budget.js';
+import { selectTests, grepPattern } from './select.js';
+import { watchTests } from './watch.js';
+import { resolveVariants, applyVariant, summarizeMatrix } from './matrix.js';
 
 /**
  * Discover test files from the given paths (files or directories).
@@ -37,12 +52,68 @@ async function discoverFiles(paths: string[]): Promise<string[]> {
   return [...new Set(files)].sort();
 }
 
+/**
+ * Parse test files, collecting parse errors instead of throwing so callers
+ * can decide whether an invalid file is fatal.
+ */
+export function parseTestFiles(files: string[]): {
+  parsed: Array<{ file: string; test: TestDefinition }>;
+  errors: Array<{ file: string; message: string }>;
+} {
+  const parsed: Array<{ file: string; test: TestDefinition }> = [];
+  const errors: Array<{ file: string; message: string }> = [];
+  for (const file of files) {
+    try {
+      parsed.push(...parseTestFile(file).map(test => ({ file, test })));
+    } catch (error) {
+      errors.push({ file, message: (error as Error).message });
+    }
+  }
+  return { parsed, errors };
+}
+
 /**
  * Run tests with the given CLI options and file/directory paths.
  */
 export async function run(paths: string[], options: CLIOptions): Promise<void> {
   const config = loadConfig(options);
 
+  if (options.record && options.replay) {
+    console.error('--record and --replay cannot be used together.');
+    process.exit(2);
+  }
+  const cassetteMode: CassetteMode | undefined = options.record ? 'record' : options.replay ? 'replay' : undefined;
+
+  const format: ReporterFormat = options.reporter ?? (options.json ? 'json' : 'console');
+  if (!['console', 'json', 'junit', 'html'].includes(format)) {
+    console.error(`Unknown reporter "${format}". Use console, json, junit or html.`);
+    process.exit(2);
+  }
+  if (options.output && format === 'console') {
+    console.error('--output requires --reporter json, junit or html.');
+    process.exit(2);
+  }
+  if (options.compare) {
+    try {
+      loadBaseline(options.compare);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(2);
+    }
+  }
+  if (options.grep !== undefined) {
+    try {
+      grepPattern(options.grep);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(2);
+    }
+  }
+  if (options.watch && options.dryRun) {
+    console.error('--watch and --dry-run cannot be used together.');
+    process.exit(2);
+  }
+
   // Default to current directory
   if (paths.length === 0) {
     paths = ['.'];
@@ -56,84 +127,227 @@ export async function run(paths: string[], options: CLIOptions): Promise<void> {
   }
 
   // Parse all test files first
-  const parsed: Array<{ file: string; test: TestDefinition }> = [];
-  for (const file of files) {
-    try {
-      const test = parseTestFile(file);
-      parsed.push({ file, test });
-    } catch (error) {
-      console.error(`Error parsing ${file}: ${(error as Error).message}`);
-      process.exit(2);
-    }
+  const { parsed, errors } = parseTestFiles(files);
+  if (errors.length > 0 && !options.watch) {
+    console.error(`Error parsing ${errors[0]!.file}: ${errors[0]!.message}`);
+    process.exit(2);
+  }
+
+  const selected = selectTests(parsed, options);
+  if (parsed.length > 0 && selected.length === 0 && !options.watch) {
+    console.error('No tests match the --grep, --tag and --exclude-tag filters.');
+    process.exit(2);
   }
 
   // Dry run — just validate and report
   if (options.dryRun) {
-    console.log(reportDryRun(parsed));
+    console.log(reportDryRun(selected));
     process.exit(0);
   }
 
-  // Check for API key
-  if (!config.provider.api_key) {
+  // Check for API key (replayed runs never reach the provider)
+  const missingKey = resolveVariants(config).find(v => !v.config.provider.api_key)?.config.provider;
+  if (missingKey && cassetteMode !== 'replay') {
     console.error(
-      'No API key found. Set OPENAI_API_KEY (or LLM_API_KEY) environment variable, or configure provider.api_key in config.',
+      missingKey.type === 'anthropic'
+        ? 'No API key found. Set ANTHROPIC_API_KEY (or LLM_API_KEY) environment variable, or configure provider.api_key in config.'
+        : 'No API key found. Set OPENAI_API_KEY (or LLM_API_KEY) environment variable, or configure provider.api_key in config.',
     );
     process.exit(2);
   }
 
-  const isJson = !!options.json;
+  // Watch mode keeps the process alive; the file watchers hold the event loop open
+  if (options.watch) {
+    await watchTests(files, options);
+    return;
+  }
+
+  const runResult = await runTests(parsed, config, options);
+
+  // Exit code; regressions over their thresholds and running out of budget fail the run too
+  const allPassed = runResult.summary.failed === 0 && runResult.summary.errors === 0;
+  const regressed = (runResult.comparison?.regressions ?? 0) > 0;
+  process.exit(allPassed && !regressed && !runResult.budget ? 0 : 1);
+}
+
+function skippedResult(test: TestDefinition, file: string, variant?: string): TestResult {
+  return {
+    name: test.name,
+    file,
+    ...(variant ? { variant } : {}),
+    passed: false,
+    skipped: true,
+    steps: [],
+    globalAssertions: [],
+    totalTokens: 0,
+    estimatedCost: 0,
+    durationMs: 0,
+  };
+}
+
+/**
+ * Execute parsed tests and report the results. Unlike `run()`, this never
+ * exits the process, so it can be called repeatedly (e.g. by watch mode).
+ * Test filters and `only` / `skip` markers are applied here.
+ */
+export async function runTests(
+  parsed: Array<{ file: string; test: TestDefinition }>,
+  config: Config,
+  options: CLIOptions,
+): Promise<RunResult> {
+  const cassetteMode: CassetteMode | undefined = options.record ? 'record' : options.replay ? 'replay' : undefined;
+  const format: ReporterFormat = options.reporter ?? (options.json ? 'json' : 'console');
+
+  // Live progress is shown unless a machine-readable report goes to stdout
+  const quiet = format !== 'console' && !options.output;
   const verbose = config.settings.verbose || !!options.verbose;
-  const reporter = new LiveReporter(verbose);
+  const concurrency = Math.max(1, config.settings.concurrency ?? 1);
+  const reporter = new LiveReporter(verbose, concurrency > 1);
+
+  // In matrix runs every test runs once per variant; skipped tests are reported, not run
+  const variants = resolveVariants(config);
+  const jobs = selectTests(parsed, options).flatMap(({ file, test, skipped }) =>
+    variants.map(variant => ({ file, test: applyVariant(test, variant), variant, skipped })),
+  );
 
-  // Execute tests sequentially
+  // Execute tests, up to `concurrency` at a time. Results are stored by index
+  // so the final order matches the discovered file order.
   const startTime = Date.now();
-  const results: RunResult['tests'] = [];
+  const slots: Array<TestResult | undefined> = new Array(jobs.length);
+  // Aborted by --bail (cut-short tests are dropped) or the run budget (they are kept)
+  const cancel = new AbortController();
+  const budget = trackBudget(config.settings.budget, cancel);
+  let nextIndex = 0;
+  let cancelled = 0;
 
-  if (!isJson) {
+  if (!quiet) {
     reporter.printHeader();
   }
 
-  for (const { file, test } of parsed) {
-    const result = await executeTest(test, config, file, isJson ? undefined : {
-      onProgress: (event) => reporter.handleEvent(event),
-    });
+  const worker = async (): Promise<void> => {
+    while (nextIndex < jobs.length && !cancel.signal.aborted) {
+      const index = nextIndex++;
+      const { file, test, variant, skipped } = jobs[index]!;
 
-    if (!isJson) {
-      reporter.printTestEnd(result);
-    }
+      if (skipped) {
+        slots[index] = skippedResult(test, file, variant.label);
+        if (!quiet) reporter.printSkipped(slots[index]!);
+        continue;
+      }
+
+      const executeOptions: ExecuteOptions = {
+        onProgress: quiet ? undefined : (event) => reporter.handleEvent(event),
+        cassette: cassetteMode ? { mode: cassetteMode, dir: config.settings.cassette_dir } : undefined,
+        signal: cancel.signal,
+        variant: variant.label,
+        onUsage: budget.add,
+      };
+      const runs = test.repeat ?? config.settings.repeat ?? 1;
+      const minPassRate = test.min_pass_rate ?? config.settings.min_pass_rate ?? 1;
+      let result = runs > 1
+        ? await executeRepeated(test, variant.config, file, runs, minPassRate, executeOptions)
+        : await executeTest(test, variant.config, file, executeOptions);
+
+      // Tests cut short by --bail are dropped, like tests that never started,
+      // and counted; tests that still finished are kept. Tests cut short by
+      // the budget are kept and marked.
+      if (cancel.signal.aborted && !budget.exceeded && result.error) {
+        if (!quiet) reporter.discardTest(result);
+        cancelled++;
+        return;
+      }
+      if (budget.exceeded && result.error) {
+        result = { ...result, budgetAborted: true };
+      }
 
-    results.push(result);
+      if (!quiet) {
+        reporter.printTestEnd(result);
+      }
 
-    // Bail on first failure
-    if (options.bail && !result.passed) {
-      break;
+      slots[index] = result;
+
+      // Bail on first failure, cancelling tests still in flight
+      if (options.bail && !result.passed) {
+        cancel.abort();
+      }
     }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, () => worker()));
+
+  // Skipped tests the run stopped before reaching are still reported as skipped
+  for (let index = nextIndex; index < jobs.length; index++) {
+    const { file, test, variant, skipped } = jobs[index]!;
+    if (!skipped) continue;
+    slots[index] = skippedResult(test, file, variant.label);
+    if (!quiet) reporter.printSkipped(slots[index]!);
   }
 
+  const results = slots.filter((r): r is TestResult => r !== undefined);
+
   // Build run result
   const runResult: RunResult = {
     tests: results,
     summary: {
       passed: results.filter(r => r.passed).length,
-      failed: results.filter(r => !r.passed && !r.error).length,
+      failed: results.filter(r => !r.passed && !r.error && !r.skipped).length,
       total: results.length,
       errors: results.filter(r => !!r.error).length,
+      ...(results.some(r => r.skipped) ? { skipped: results.filter(r => r.skipped).length } : {}),
+      ...(cancelled > 0 ? { cancelled } : {}),
+      ...(results.some(r => r.retries) ? { retries: results.reduce((sum, r) => sum + (r.retries ?? 0), 0) } : {}),
     },
     tokens: {
       total: results.reduce((sum, r) => sum + r.totalTokens, 0),
       cost_usd: results.reduce((sum, r) => sum + r.estimatedCost, 0),
+      ...(results.some(r => r.judgeTokens) ? {
+        judge: {
+          total: results.reduce((sum, r) => sum + (r.judgeTokens ?? 0), 0),
+          cost_usd: results.reduce((sum, r) => sum + (r.judgeCost ?? 0), 0),
+        },
+      } : {}),
     },
     duration_ms: Date.now() - startTime,
+    files: summarizeFiles(results),
   };
+  if (variants.some(v => v.label)) {
+    runResult.matrix = summarizeMatrix(results, variants.map(v => v.label!));
+  }
+  if (budget.exceeded) {
+    runResult.budget = {
+      ...budget.exceeded,
+      tokens: budget.tokens,
+      cost_usd: budget.cost,
+      aborted: results.filter(r => r.budgetAborted).length,
+      not_run: jobs.slice(nextIndex).filter(job => !job.skipped).map(({ file, test, variant }) => ({
+        name: test.name,
+        file,
+        ...(variant.label ? { variant: variant.label } : {}),
+      })),
+    };
+  }
+  // Compare before saving so one file can be both the baseline and its update
+  if (options.compare) {
+    runResult.comparison = compareBaseline(loadBaseline(options.compare), runResult, config.settings.regression);
+  }
+  if (options.saveBaseline) {
+    saveBaseline(options.saveBaseline, runResult);
+  }
 
   // Report
-  if (isJson) {
-    console.log(reportJSON(runResult));
-  } else {
+  if (format !== 'console') {
+    const report = format === 'junit' ? reportJUnit(runResult)
+      : format === 'html' ? reportHTML(runResult)
+      : reportJSON(runResult);
+    if (options.output) {
+      writeFileSync(options.output, report + '\n');
+    } else {
+      console.log(report);
+    }
+  }
+  if (!quiet) {
     reporter.printSummary(runResult);
   }
 
-  // Exit code
-  const allPassed = runResult.summary.failed === 0 && runResult.summary.errors === 0;
-  process.exit(allPassed ? 0 : 1);
+  return runResult;
 }
@@ -0,0 +1,170 @@
+// ── JSON Schema Validation ──────────────────────────────────────────────────
+
+/**
+ * The subset of JSON Schema used to describe tool parameters.
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+const FORMATS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function describe(value: unknown): string {
+  const str = JSON.stringify(value) ?? String(value);
+  return str.length > 60 ? `${str.slice(0, 59)}…` : str;
+}
+
+function isValidDate(value: string, format: string): boolean {
+  if (format !== 'date' && format !== 'date-time') return true;
+  // Round-trip the calendar date so values like 2026-02-30 are rejected
+  const day = value.slice(0, 10);
+  const parsed = new Date(`${day}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === day;
+}
+
+/**
+ * Validate a value against a JSON Schema. Returns one message per violation,
+ * each prefixed with the path to the offending value (e.g. `args.items[0].sku`).
+ * Unknown keywords and formats are ignored.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string): string[] {
+  const errors: string[] = [];
+
+  if (schema.anyOf || schema.oneOf) {
+    const branches = (schema.anyOf ?? schema.oneOf)!;
+    const matching = branches.filter(b => validateSchema(value, b, path).length === 0).length;
+    if (schema.anyOf && matching === 0) {
+      errors.push(`${path}: does not match any allowed schema, got ${describe(value)}`);
+    }
+    if (schema.oneOf && matching !== 1) {
+      errors.push(`${path}: expected to match exactly one schema, matched ${matching}`);
+    }
+  }
+
+  for (const branch of schema.allOf ?? []) {
+    errors.push(...validateSchema(value, branch, path));
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(' | ')}, got ${typeOf(value)} ${describe(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: expected one of ${schema.enum.map(describe).join(', ')}, got ${describe(value)}`);
+  }
+
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: expected ${describe(schema.const)}, got ${describe(value)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: expected at least ${schema.minLength} characters, got ${value.length}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: expected at most ${schema.maxLength} characters, got ${value.length}`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: expected to match /${schema.pattern}/, got ${describe(value)}`);
+    }
+    const format = schema.format ? FORMATS[schema.format] : undefined;
+    if (format && (!format.test(value) || !isValidDate(value, schema.format!))) {
+      errors.push(`${path}: expected format "${schema.format}", got ${describe(value)}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: expected >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: expected <= ${schema.maximum}, got ${value}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: expected > ${schema.exclusiveMinimum}, got ${value}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: expected < ${schema.exclusiveMaximum}, got ${value}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} item(s), got ${value.length}`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) {
+        errors.push(`${path}.${key}: required property is missing`);
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        errors.push(...validateSchema(child, propSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unexpected property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,48 @@
+import type { TestDefinition } from './types.js';
+
+// ── Test Selection ──────────────────────────────────────────────────────────
+
+export interface TestFilter {
+  grep?: string;
+  tags?: string[];
+  excludeTags?: string[];
+}
+
+/**
+ * Compile a `--grep` pattern, with an error that names the option.
+ */
+export function grepPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (err) {
+    throw new Error(`Invalid --grep pattern: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Pick the tests to run. Tests that don't match `--grep`, `--tag` or
+ * `--exclude-tag` are left out entirely. Of the rest, tests marked
+ * `skip: true` are kept but flagged `skipped`, as are all tests without
+ * `only: true` when any test has it.
+ */
+export function selectTests<T extends { test: TestDefinition }>(
+  parsed: T[],
+  filter: TestFilter,
+): Array<T & { skipped: boolean }> {
+  const grep = filter.grep !== undefined ? grepPattern(filter.grep) : undefined;
+  const include = filter.tags ?? [];
+  const exclude = filter.excludeTags ?? [];
+
+  const matching = parsed.filter(({ test }) => {
+    const tags = test.tags ?? [];
+    if (grep && !grep.test(test.name)) return false;
+    if (include.length > 0 && !tags.some(tag => include.includes(tag))) return false;
+    return !tags.some(tag => exclude.includes(tag));
+  });
+
+  const focused = matching.some(({ test }) => test.only);
+  return matching.map(entry => ({
+    ...entry,
+    skipped: !!entry.test.skip || (focused && !entry.test.only),
+  }));
+}
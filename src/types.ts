@@ -1,9 +1,13 @@
 // ── Config ──────────────────────────────────────────────────────────────────
 
+export type ProviderType = 'openai' | 'anthropic';
+
 export interface ProviderConfig {
+  type?: ProviderType;
   base_url: string;
   model: string;
   api_key?: string;
+  max_tokens?: number;
 }
 
 export interface PromptmanConfig {
@@ -15,28 +19,98 @@ export interface Settings {
   timeout: number;
   max_turns: number;
   verbose: boolean;
+  concurrency?: number;
+  repeat?: number;
+  min_pass_rate?: number;
+  validate_args?: boolean;
+  cassette_dir?: string;
+  /** Retries for rate limits and transient provider errors (default: 2). */
+  retries?: number;
+  /** Base backoff delay in ms, doubled on each retry (default: 1000). */
+  retry_delay?: number;
+  /** Stream responses (`stream: true`) and measure time to first token. */
+  stream?: boolean;
+  /** Allowed growth per test over the `--compare` baseline, in percent. */
+  regression?: RegressionThresholds;
+  /** Run-wide limits; the run stops once either is passed. */
+  budget?: RunBudget;
+}
+
+/** Limits on a whole run, judge calls included. */
+export interface RunBudget {
+  /** Estimated cost in USD. */
+  max_cost?: number;
+  max_tokens?: number;
+}
+
+/** Percent growth over the baseline above which a test counts as regressed. */
+export interface RegressionThresholds {
+  tokens?: number;
+  cost?: number;
+  turns?: number;
+  duration?: number;
+}
+
+/** One provider/model of a matrix run, applied on top of `provider`. */
+export interface MatrixEntry extends Partial<ProviderConfig> {
+  /** Column label in the comparison report (default: the model name). */
+  label?: string;
 }
 
 export interface Config {
   provider: ProviderConfig;
+  /** Provider used to grade `judge:` assertions; inherits from `provider`. */
+  judge?: Partial<ProviderConfig>;
+  /** Run every test against each of these providers/models. */
+  matrix?: MatrixEntry[];
   promptman?: PromptmanConfig;
   settings: Settings;
 }
 
 // ── CLI Options ─────────────────────────────────────────────────────────────
 
+export type ReporterFormat = 'console' | 'json' | 'junit' | 'html';
+
 export interface CLIOptions {
   config?: string;
   verbose?: boolean;
   json?: boolean;
+  reporter?: ReporterFormat;
+  output?: string;
   model?: string;
   baseUrl?: string;
   timeout?: number;
   maxTurns?: number;
   bail?: boolean;
   dryRun?: boolean;
+  record?: boolean;
+  replay?: boolean;
+  cassetteDir?: string;
+  concurrency?: number;
+  repeat?: number;
+  minPassRate?: number;
+  judgeModel?: string;
+  watch?: boolean;
+  retries?: number;
+  stream?: boolean;
+  /** Comma-separated models for a matrix run. */
+  models?: string;
+  saveBaseline?: string;
+  compare?: string;
+  /** Overrides `settings.regression.tokens`. */
+  maxTokenGrowth?: number;
+  maxCost?: number;
+  maxTokens?: number;
+  /** Run only tests whose name matches this regular expression. */
+  grep?: string;
+  /** Run only tests with at least one of these tags. */
+  tags?: string[];
+  /** Leave out tests with any of these tags. */
+  excludeTags?: string[];
 }
 
+export type CassetteMode = 'record' | 'replay';
+
 // ── Tool Definition (OpenAI format) ─────────────────────────────────────────
 
 export interface ToolParameter {
@@ -64,7 +138,27 @@ export interface StringAssertion {
   equals?: string;
 }
 
-export type ArgValue = string | number | boolean | StringAssertion | NumericAssertion;
+/** Matchers for array values; `includes` and `every` take any ArgValue. */
+export interface ArrayAssertion {
+  length?: number | NumericAssertion;
+  includes?: ArgValue;
+  every?: ArgValue;
+}
+
+/**
+ * Expected value for a tool arg. Plain objects and arrays match nested
+ * values recursively; objects of operator keys are matchers.
+ */
+export type ArgValue =
+  | string
+  | number
+  | boolean
+  | null
+  | StringAssertion
+  | NumericAssertion
+  | ArrayAssertion
+  | ArgValue[]
+  | { [key: string]: ArgValue };
 
 export interface NumericAssertion {
   gte?: number;
@@ -78,6 +172,20 @@ export interface ToolCallAssertion {
   count?: number;
 }
 
+export interface JudgeAssertion {
+  rubric: string;
+  /** Minimum score (0-10) to pass. Defaults to 7. */
+  threshold?: number;
+}
+
+/** Assertions on a response that should be JSON (optionally in a code fence). */
+export interface JsonResponseAssertion {
+  /** Expected values by JSONPath (`$.items[0].sku`), using the tool arg matchers. */
+  match?: Record<string, ArgValue>;
+  /** JSON Schema the parsed response must satisfy; `{ file }` is resolved at parse time. */
+  schema?: Record<string, unknown> | { file: string };
+}
+
 export interface ResponseAssertion {
   contains?: string | string[];
   contains_any?: string[];
@@ -85,19 +193,37 @@ export interface ResponseAssertion {
   matches?: string;
   min_length?: number;
   max_length?: number;
+  judge?: string | JudgeAssertion;
+  /** Parse the response as JSON; `true` only checks that it parses. */
+  json?: true | JsonResponseAssertion;
+}
+
+/**
+ * Boolean composition of assertions. Each branch is a full assertion block
+ * and passes only if all of its assertions pass.
+ */
+export interface Combinators<T> {
+  /** Passes if at least one branch passes. */
+  any_of?: T[];
+  /** Passes if every branch passes. */
+  all_of?: T[];
+  /** Passes if the branch fails. */
+  not?: T;
 }
 
-export interface GlobalAssertion {
+export interface GlobalAssertion extends Combinators<GlobalAssertion> {
   tool_order?: string[];
   total_tool_calls?: NumericAssertion;
   total_turns?: NumericAssertion;
   total_tokens?: NumericAssertion;
 }
 
-export interface StepExpectation {
+export interface StepExpectation extends Combinators<StepExpectation> {
   tool_calls?: ToolCallAssertion[];
   tool_calls_not?: ToolCallAssertion[];
   response?: ResponseAssertion;
+  /** Validate tool call args against the tool schemas (default: settings.validate_args). */
+  valid_args?: boolean;
 }
 
 // ── Mock ────────────────────────────────────────────────────────────────────
@@ -107,13 +233,41 @@ export interface MockCondition {
   return: unknown;
 }
 
+/** What a `sequence:` mock returns once every item has been used. */
+export type SequenceExhaustedPolicy = 'repeat_last' | 'cycle' | 'error';
+
 export interface MockDefinition {
   return?: unknown;
   error?: string;
   conditions?: MockCondition[];
   default?: { return: unknown };
+  /** One entry per call, in order. */
+  sequence?: MockDefinition[];
+  on_exhausted?: SequenceExhaustedPolicy;
+  /** Whether the call counter resets each step (default) or runs across the test. */
+  scope?: 'step' | 'test';
+  /** Absolute path of a JS/TS module whose function computes the result. */
+  handler?: string;
+}
+
+/** A mocked tool call made earlier in the test. */
+export interface MockCall {
+  toolName: string;
+  args: Record<string, unknown>;
+  result: unknown;
+}
+
+export interface MockHandlerContext {
+  toolName: string;
+  callId: string;
+  /** Mocked calls made earlier in this test, oldest first. */
+  history: MockCall[];
+  /** Shared by every handler call in one test run; starts empty. */
+  state: Record<string, unknown>;
 }
 
+export type MockHandler = (args: Record<string, unknown>, context: MockHandlerContext) => unknown;
+
 export interface StepMock {
   [toolName: string]: MockDefinition | unknown;
 }
@@ -127,13 +281,35 @@ export interface PromptmanSource {
   variables?: Record<string, string>;
 }
 
-export type SystemPromptSource = string | { promptman: PromptmanSource };
+export type SystemPromptSource = string | { promptman: PromptmanSource } | { file: string };
+
+/**
+ * One `capture:` entry. `from` is `response`, `args.<tool>` or
+ * `result.<tool>` (the last call to that tool in the step).
+ */
+export interface CaptureSpec {
+  from: string;
+  /** JSONPath into the source, e.g. `$.booking.id`. */
+  path?: string;
+  /** Regex applied to the source text; the first group is captured if present. */
+  regex?: string;
+}
 
 export interface TestStep {
   user?: string;
   expect?: StepExpectation;
   mock?: StepMock;
   assert?: GlobalAssertion;
+  /** Named values to extract after the step, usable as `{{name}}` in later steps. */
+  capture?: Record<string, CaptureSpec>;
+}
+
+/** The `cases:` row a data-driven test was expanded from. */
+export interface TestCase {
+  index: number;
+  vars: Record<string, unknown>;
+  /** CSV or JSON file the row came from, if not inline. */
+  source?: string;
 }
 
 export interface TestDefinition {
@@ -142,6 +318,16 @@ export interface TestDefinition {
   system_prompt: SystemPromptSource;
   tools?: ToolDefinition[];
   steps: TestStep[];
+  repeat?: number;
+  min_pass_rate?: number;
+  /** Labels for selecting tests with `--tag` / `--exclude-tag`. */
+  tags?: string[];
+  /** When any test has `only`, the others are skipped. */
+  only?: boolean;
+  skip?: boolean;
+  case?: TestCase;
+  /** Shared fixtures (`extends`, `$include`, `$ref`) and OpenAPI documents the test was built from. */
+  fixtures?: string[];
 }
 
 // ── OpenAI API Types ────────────────────────────────────────────────────────
@@ -162,6 +348,15 @@ export interface ToolCall {
   };
 }
 
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: Array<{
+    type: 'function';
+    function: { name: string; description: string; parameters: unknown };
+  }>;
+}
+
 export interface ChatCompletionResponse {
   id: string;
   choices: Array<{
@@ -183,6 +378,13 @@ export interface AssertionResult {
   message: string;
 }
 
+/** Timing of one LLM request (turn) within a step. */
+export interface TurnTiming {
+  latencyMs: number;
+  /** Time to first token; only measured when streaming. */
+  ttftMs?: number;
+}
+
 export interface StepResult {
   stepIndex: number;
   userMessage?: string;
@@ -190,29 +392,94 @@ export interface StepResult {
   toolCalls: ToolCall[];
   assistantResponse?: string;
   passed: boolean;
+  /** One entry per LLM request made during the step (absent when replayed). */
+  timings?: TurnTiming[];
+  /** Values extracted by the step's `capture:` block. */
+  captures?: Record<string, unknown>;
+  /**
+   * Messages the step added to the conversation: the user turn, assistant
+   * turns (with tool calls) and the injected mock results.
+   */
+  messages?: ChatMessage[];
+}
+
+export interface Spread {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface AssertionFailureCount {
+  /** Step number (1-based); absent for global assertions. */
+  step?: number;
+  message: string;
+  failures: number;
+}
+
+export interface RepeatStats {
+  runs: number;
+  passedRuns: number;
+  passRate: number;
+  minPassRate: number;
+  flaky: boolean;
+  assertionFailures: AssertionFailureCount[];
+  tokens: Spread;
+  cost: Spread;
+  durationMs: Spread;
 }
 
 export interface TestResult {
   name: string;
   file: string;
+  /** Matrix entry the test ran against, in matrix runs. */
+  variant?: string;
   passed: boolean;
+  /** The resolved system prompt the conversation started with. */
+  systemPrompt?: string;
   steps: StepResult[];
   globalAssertions: AssertionResult[];
   totalTokens: number;
   estimatedCost: number;
   durationMs: number;
+  /** LLM requests made for the test's own conversation (judge calls excluded). */
+  turns?: number;
+  /** Tokens and cost spent by the judge model, not included in the totals above. */
+  judgeTokens?: number;
+  judgeCost?: number;
+  /** Provider calls that were retried after a rate limit or transient error. */
+  retries?: number;
   error?: string;
+  /** Not run because of `skip: true` or another test's `only: true`; `passed` is false. */
+  skipped?: boolean;
+  /** Cancelled mid-run because the run's cost or token budget ran out. */
+  budgetAborted?: boolean;
+  /** Present when the test ran more than once (`repeat`). */
+  repeat?: RepeatStats;
 }
 
 export interface ProgressEvent {
-  type: 'test:start' | 'step:start' | 'step:llm_call' | 'step:tool_calls' | 'step:mock_inject' | 'step:complete' | 'test:complete';
+  type: 'test:start' | 'step:start' | 'step:llm_call' | 'step:tool_calls' | 'step:mock_inject' | 'step:judge' | 'step:retry' | 'step:complete' | 'test:complete';
   testName: string;
   file?: string;
+  variant?: string;
   stepIndex?: number;
   userMessage?: string;
   toolNames?: string[];
   step?: StepResult;
   test?: TestResult;
+  /** 1-based run number and total runs when the test is repeated. */
+  run?: number;
+  runs?: number;
+  /** Retry details for `step:retry` events. */
+  retry?: RetryInfo;
+}
+
+export interface RetryInfo {
+  /** 1-based number of the retry about to be made. */
+  attempt: number;
+  retries: number;
+  delayMs: number;
+  reason: string;
 }
 
 export type OnProgressCallback = (event: ProgressEvent) => void;
@@ -224,10 +491,121 @@ export interface RunResult {
     failed: number;
     total: number;
     errors: number;
+    /** Tests not run because of `skip` / `only`, when any were (counted in `total`). */
+    skipped?: number;
+    /** Tests cut short by `--bail`, when any were (not in `tests` or `total`). */
+    cancelled?: number;
+    /** Total provider calls retried across all tests, when any were. */
+    retries?: number;
   };
   tokens: {
     total: number;
     cost_usd: number;
+    judge?: {
+      total: number;
+      cost_usd: number;
+    };
   };
   duration_ms: number;
+  /** Per-file totals, in file order. */
+  files?: FileSummary[];
+  /** Per-model totals, in matrix runs. */
+  matrix?: MatrixSummary[];
+  /** Differences from the `--compare` baseline. */
+  comparison?: BaselineComparison;
+  /** Present when the run stopped early because it went over budget. */
+  budget?: BudgetReport;
+}
+
+export interface FileSummary {
+  file: string;
+  passed: number;
+  failed: number;
+  errors: number;
+  skipped?: number;
+  total: number;
+  duration_ms: number;
+}
+
+export interface BudgetReport {
+  /** The limit that was passed. */
+  exceeded: 'cost' | 'tokens';
+  limit: number;
+  /** Spent when the run stopped, judge calls included. */
+  tokens: number;
+  cost_usd: number;
+  /** Tests cancelled while running (also marked `budgetAborted`). */
+  aborted: number;
+  /** Tests that never started. */
+  not_run: Array<{ name: string; file: string; variant?: string }>;
+}
+
+// ── Baselines ───────────────────────────────────────────────────────────────
+
+/** A test's metrics as saved by `--save-baseline`. */
+export interface BaselineEntry {
+  name: string;
+  /** Relative to the working directory, so baselines work across machines. */
+  file: string;
+  variant?: string;
+  passed: boolean;
+  tokens: number;
+  cost_usd: number;
+  turns: number;
+  duration_ms: number;
+}
+
+export interface Baseline {
+  version: 1;
+  created_at: string;
+  tests: BaselineEntry[];
+}
+
+export interface MetricChange {
+  before: number;
+  after: number;
+  /** Percent change; null when the baseline value was 0. */
+  change_pct: number | null;
+}
+
+/**
+ * - `broken`: passed in the baseline, fails now
+ * - `fixed`: failed in the baseline, passes now
+ * - `new`: not in the baseline
+ * - `missing`: in the baseline but not run
+ */
+export type ComparisonStatus = 'passing' | 'failing' | 'broken' | 'fixed' | 'new' | 'missing';
+
+export interface TestComparison {
+  name: string;
+  file: string;
+  variant?: string;
+  status: ComparisonStatus;
+  tokens?: MetricChange;
+  cost_usd?: MetricChange;
+  turns?: MetricChange;
+  duration_ms?: MetricChange;
+  /** Metrics that grew past their threshold, e.g. `tokens +34% (limit 20%)`. */
+  regressions: string[];
+}
+
+export interface BaselineComparison {
+  baseline_created_at: string;
+  tests: TestComparison[];
+  broken: number;
+  fixed: number;
+  /** Tests with at least one metric over its threshold. */
+  regressions: number;
+}
+
+export interface MatrixSummary {
+  variant: string;
+  passed: number;
+  failed: number;
+  errors: number;
+  total: number;
+  tokens: number;
+  cost_usd: number;
+  /** Mean LLM latency per turn, when measured (not in replayed runs). */
+  latency_ms?: number;
 }
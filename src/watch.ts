@@ -0,0 +1,197 @@
+import { watch, type FSWatcher } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import type { CLIOptions, MockDefinition, StepExpectation, TestDefinition } from './types.js';
+import { loadConfig, resolveConfigPath } from './config.js';
+import { parseTestFiles, runTests } from './runner.js';
+
+/** Changes arriving within this window are batched into one re-run. */
+const DEBOUNCE_MS = 100;
+
+/**
+ * Local files a test depends on: the test file itself plus any files it
+ * references (prompt files, `cases:` files, shared fixtures, OpenAPI
+ * documents, mock handler modules and response schema files).
+ */
+export function testDependencies(file: string, test: TestDefinition): string[] {
+  const deps = [file];
+  if (typeof test.system_prompt === 'object' && 'file' in test.system_prompt) {
+    deps.push(test.system_prompt.file);
+  }
+  if (test.case?.source) {
+    deps.push(test.case.source);
+  }
+  deps.push(...test.fixtures ?? []);
+  for (const step of test.steps) {
+    for (const mock of Object.values(step.mock ?? {})) {
+      deps.push(...handlerFiles(mock));
+    }
+    deps.push(...schemaFiles(step.expect));
+  }
+  return deps;
+}
+
+/** `response.json.schema` files, including those inside combinator branches. */
+function schemaFiles(expect: StepExpectation | undefined): string[] {
+  if (!expect) return [];
+  const json = expect.response?.json;
+  const schema = typeof json === 'object' ? json.schema : undefined;
+  const branches = [...(expect.any_of ?? []), ...(expect.all_of ?? []), ...(expect.not ? [expect.not] : [])];
+  return [
+    ...(schema && 'file' in schema && typeof schema.file === 'string' ? [schema.file] : []),
+    ...branches.flatMap(schemaFiles),
+  ];
+}
+
+function handlerFiles(mock: unknown): string[] {
+  if (typeof mock !== 'object' || mock === null) return [];
+  const def = mock as MockDefinition;
+  return [...(def.handler ? [def.handler] : []), ...(def.sequence ?? []).flatMap(handlerFiles)];
+}
+
+/** A test being watched and the files it depends on. */
+export interface WatchedTest {
+  file: string;
+  /** Empty for a file that failed to parse; it depends only on itself. */
+  name: string;
+  deps: string[];
+}
+
+/**
+ * Tests affected by a set of changed paths. A change to the config file
+ * affects every test.
+ */
+export function affectedTests(
+  watched: WatchedTest[],
+  changed: Iterable<string>,
+  configPath: string | null,
+): WatchedTest[] {
+  const changedSet = new Set(changed);
+  if (configPath && changedSet.has(configPath)) {
+    return watched;
+  }
+  return watched.filter(test => test.deps.some(d => changedSet.has(d)));
+}
+
+/**
+ * Of the tests parsed from re-read files, those to run again: the affected
+ * ones, plus any the files did not have before (e.g. new case rows or a
+ * renamed test).
+ */
+export function testsToRerun<T extends { file: string; test: TestDefinition }>(
+  parsed: T[],
+  affected: WatchedTest[],
+  previous: WatchedTest[],
+): T[] {
+  const isIn = (tests: WatchedTest[], { file, test }: T) => tests.some(t => t.file === file && t.name === test.name);
+  return parsed.filter(entry => isIn(affected, entry) || !isIn(previous, entry));
+}
+
+function notice(msg: string): void {
+  process.stderr.write(`  ${msg}\n`);
+}
+
+/**
+ * Run the given test files, then keep watching them (and the config file and
+ * any files they reference), re-running only the tests affected by a change.
+ * Returns once the first run has finished; the watchers keep the process alive.
+ */
+export async function watchTests(files: string[], options: CLIOptions): Promise<{ close(): void }> {
+  const configPath = resolveConfigPath(options);
+  // Every parsed test and the files it depends on
+  let watched: WatchedTest[] = files.map(file => ({ file, name: '', deps: [file] }));
+  // Directories are watched rather than files so editors that save by
+  // replacing the file are still picked up.
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Set<string>();
+  let running = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const watchedPaths = (): Set<string> => {
+    const paths = new Set(watched.flatMap(test => test.deps));
+    if (configPath) paths.add(configPath);
+    return paths;
+  };
+
+  const onChange = (dir: string, filename: string | null) => {
+    if (!filename) return;
+    const path = resolve(dir, filename);
+    if (!watchedPaths().has(path)) return;
+    pending.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(() => void flush(), DEBOUNCE_MS);
+  };
+
+  const syncWatchers = () => {
+    const dirs = new Set([...watchedPaths()].map(p => dirname(p)));
+    for (const dir of dirs) {
+      if (watchers.has(dir)) continue;
+      try {
+        watchers.set(dir, watch(dir, (_event, filename) => onChange(dir, filename)));
+      } catch (error) {
+        notice(chalk.yellow(`Cannot watch ${relative(process.cwd(), dir) || '.'}: ${(error as Error).message}`));
+      }
+    }
+  };
+
+  /**
+   * Re-parse `toRun` and run its tests: with `only`, just those tests plus
+   * any the file did not have before (e.g. new case rows or renamed tests).
+   */
+  const runFiles = async (toRun: string[], only?: WatchedTest[]) => {
+    running = true;
+    try {
+      const { parsed, errors } = parseTestFiles(toRun);
+      const previous = watched.filter(test => toRun.includes(test.file));
+      watched = [
+        ...watched.filter(test => !toRun.includes(test.file)),
+        ...errors.map(({ file }) => ({ file, name: '', deps: [file] })),
+        ...parsed.map(({ file, test }) => ({ file, name: test.name, deps: [...new Set(testDependencies(file, test))] })),
+      ];
+      for (const { file, message } of errors) {
+        notice(chalk.red(`Error parsing ${relative(process.cwd(), file)}: ${message}`));
+      }
+      syncWatchers();
+
+      const selected = only ? testsToRerun(parsed, only, previous) : parsed;
+      if (selected.length > 0) {
+        // Reload config each time so edits to it take effect without a restart
+        await runTests(selected, loadConfig(options), options);
+      }
+    } catch (error) {
+      notice(chalk.red(`Run failed: ${(error as Error).message}`));
+    } finally {
+      running = false;
+    }
+    notice(chalk.dim('Watching for changes… (Ctrl+C to exit)'));
+  };
+
+  // Changes made while a run is in progress are picked up when it finishes
+  const flush = async () => {
+    if (running || pending.size === 0) return;
+    const changed = [...pending];
+    pending.clear();
+
+    const affected = affectedTests(watched, changed, configPath);
+    if (affected.length === 0) return;
+
+    process.stderr.write('\n');
+    for (const path of changed) {
+      notice(chalk.cyan(`Changed: ${relative(process.cwd(), path)}`));
+    }
+    await runFiles([...new Set(affected.map(test => test.file))], affected);
+    if (pending.size > 0) await flush();
+  };
+
+  await runFiles(files);
+  // flush() returns early during a run, so catch up on changes saved during the first one
+  if (pending.size > 0) await flush();
+
+  return {
+    close() {
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
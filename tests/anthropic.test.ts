@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { toAnthropicRequest, fromAnthropicResponse, type AnthropicRequest } from '../src/anthropic.js';
+import { executeTest } from '../src/executor.js';
+import type { ChatCompletionRequest, Config, TestDefinition } from '../src/types.js';
+
+describe('toAnthropicRequest', () => {
+  const request: ChatCompletionRequest = {
+    model: 'claude-sonnet-4',
+    messages: [
+      { role: 'system', content: 'You are a booking agent' },
+      { role: 'user', content: 'Find hotels in Paris' },
+      {
+        role: 'assistant',
+        content: 'Searching…',
+        tool_calls: [
+          { id: 'tu_1', type: 'function', function: { name: 'search', arguments: '{"city":"Paris"}' } },
+          { id: 'tu_2', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } },
+        ],
+      },
+      { role: 'tool', content: '[{"id":"h1"}]', tool_call_id: 'tu_1' },
+      { role: 'tool', content: '{"temp":12}', tool_call_id: 'tu_2' },
+    ],
+    tools: [
+      { type: 'function', function: { name: 'search', description: 'Search', parameters: { type: 'object' } } },
+    ],
+  };
+
+  it('moves system messages to the system field', () => {
+    const result = toAnthropicRequest(request);
+    expect(result.system).toBe('You are a booking agent');
+    expect(result.messages.every(m => m.role !== ('system' as string))).toBe(true);
+  });
+
+  it('maps tool calls to tool_use blocks with parsed input', () => {
+    const result = toAnthropicRequest(request);
+    expect(result.messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Searching…' },
+        { type: 'tool_use', id: 'tu_1', name: 'search', input: { city: 'Paris' } },
+        { type: 'tool_use', id: 'tu_2', name: 'weather', input: { city: 'Paris' } },
+      ],
+    });
+  });
+
+  it('merges consecutive tool results into one user turn', () => {
+    const result = toAnthropicRequest(request);
+    expect(result.messages).toHaveLength(3);
+    expect(result.messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'tu_1', content: '[{"id":"h1"}]' },
+        { type: 'tool_result', tool_use_id: 'tu_2', content: '{"temp":12}' },
+      ],
+    });
+  });
+
+  it('maps tools to input_schema and sets max_tokens', () => {
+    const result = toAnthropicRequest(request, 1024);
+    expect(result.max_tokens).toBe(1024);
+    expect(result.tools).toEqual([{ name: 'search', description: 'Search', input_schema: { type: 'object' } }]);
+  });
+});
+
+describe('fromAnthropicResponse', () => {
+  it('maps tool_use blocks, usage and stop reason', () => {
+    const result = fromAnthropicResponse({
+      id: 'msg_1',
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'tu_1', name: 'search', input: { city: 'Paris' } },
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 100, output_tokens: 20 },
+    });
+    const choice = result.choices[0]!;
+    expect(choice.finish_reason).toBe('tool_calls');
+    expect(choice.message.content).toBe('Let me check.');
+    expect(choice.message.tool_calls).toEqual([
+      { id: 'tu_1', type: 'function', function: { name: 'search', arguments: '{"city":"Paris"}' } },
+    ]);
+    expect(result.usage).toEqual({ prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 });
+  });
+
+  it('maps end_turn and max_tokens stop reasons', () => {
+    const base = { id: 'msg_1', role: 'assistant' as const, content: [{ type: 'text' as const, text: 'Hi' }] };
+    expect(fromAnthropicResponse({ ...base, stop_reason: 'end_turn' }).choices[0]!.finish_reason).toBe('stop');
+    expect(fromAnthropicResponse({ ...base, stop_reason: 'max_tokens' }).choices[0]!.finish_reason).toBe('length');
+  });
+});
+
+describe('executeTest with an anthropic provider', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: Array<{ url?: string; headers: IncomingHttpHeaders; body: AnthropicRequest }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(data) as AnthropicRequest;
+        requests.push({ url: req.url, headers: req.headers, body });
+        const isFollowUp = body.messages.length > 1;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(isFollowUp
+          ? {
+            id: 'msg_2',
+            role: 'assistant',
+            content: [{ type: 'text', text: 'It is 12 degrees in Berlin.' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 50, output_tokens: 10 },
+          }
+          : {
+            id: 'msg_1',
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'tu_1', name: 'get_weather', input: { location: 'Berlin' } }],
+            stop_reason: 'tool_use',
+            usage: { input_tokens: 40, output_tokens: 15 },
+          }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('runs the tool-calling loop through the Messages API', async () => {
+    const config: Config = {
+      provider: { type: 'anthropic', base_url: baseUrl, model: 'claude-sonnet-4', api_key: 'sk-ant-test' },
+      settings: { timeout: 5000, max_turns: 5, verbose: false },
+    };
+    const test: TestDefinition = {
+      name: 'Weather',
+      system_prompt: 'You are a weather assistant',
+      tools: [{ name: 'get_weather', description: 'Get weather', parameters: { type: 'object' } }],
+      steps: [{
+        user: 'Weather in Berlin?',
+        expect: {
+          tool_calls: [{ name: 'get_weather', args: { location: 'Berlin' } }],
+          response: { contains: '12' },
+        },
+        mock: { get_weather: { return: { temperature: 12 } } },
+      }],
+    };
+
+    const result = await executeTest(test, config, 'weather.test.yaml');
+
+    expect(result.error).toBeUndefined();
+    expect(result.passed).toBe(true);
+    expect(result.totalTokens).toBeGreaterThanOrEqual(115);
+    expect(requests).toHaveLength(2);
+    expect(requests[0]!.url).toBe('/v1/messages');
+    expect(requests[0]!.headers['x-api-key']).toBe('sk-ant-test');
+    expect(requests[0]!.headers['anthropic-version']).toBeDefined();
+    expect(requests[0]!.body.system).toBe('You are a weather assistant');
+    expect(requests[1]!.body.messages[2]!.content[0]).toEqual({
+      type: 'tool_result',
+      tool_use_id: 'tu_1',
+      content: JSON.stringify({ temperature: 12 }),
+    });
+  });
+});
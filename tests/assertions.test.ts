@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { evaluateStepAssertions, evaluateGlobalAssertions } from '../src/assertions.js';
-import type { ToolCall, StepExpectation, GlobalAssertion } from '../src/types.js';
+import { evaluateStepAssertions, evaluateGlobalAssertions, evaluateToolArgs } from '../src/assertions.js';
+import type { ToolCall, StepExpectation, GlobalAssertion, ToolDefinition } from '../src/types.js';
 
 function makeToolCall(name: string, args: Record<string, unknown>, id = 'tc_1'): ToolCall {
   return {
@@ -154,6 +154,93 @@ describe('evaluateStepAssertions', () => {
     const results = evaluateStepAssertions(undefined, [], 'hello');
     expect(results).toHaveLength(0);
   });
+
+  describe('response.json', () => {
+    const reply = 'Here is your booking:\n```json\n{"status": "confirmed", "rooms": [{"type": "double"}]}\n```';
+
+    it('parses JSON from a code fence and matches paths', () => {
+      const results = evaluateStepAssertions({
+        response: { json: { match: { '$.status': 'confirmed', '$.rooms': { length: 1 }, 'rooms[0].type': 'double' } } },
+      }, [], reply);
+      expect(results.map(r => r.message)).toEqual([
+        'Response is valid JSON',
+        'Response JSON: status = "confirmed"',
+        'Response JSON: rooms.length = 1',
+        'Response JSON: rooms[0].type = "double"',
+      ]);
+      expect(results.every(r => r.passed)).toBe(true);
+    });
+
+    it('fails clearly when the response is not JSON', () => {
+      const [result] = evaluateStepAssertions({ response: { json: true } }, [], 'Sure, booked!');
+      expect(result!.passed).toBe(false);
+      expect(result!.message).toMatch(/^Response is not valid JSON \(.+\) — got: "Sure, booked!"$/);
+    });
+
+    it('validates against an inline schema', () => {
+      const results = evaluateStepAssertions({
+        response: {
+          json: {
+            schema: {
+              type: 'object',
+              required: ['status', 'total'],
+              properties: { status: { type: 'string', enum: ['confirmed', 'pending'] } },
+            },
+          },
+        },
+      }, [], '{"status": "cancelled"}');
+      expect(results.filter(r => !r.passed).map(r => r.message)).toEqual([
+        'Response JSON schema: response.total: required property is missing',
+        'Response JSON schema: response.status: expected one of "confirmed", "pending", got "cancelled"',
+      ]);
+    });
+  });
+
+  describe('combinators', () => {
+    const searchOrAsk: StepExpectation = {
+      any_of: [
+        { tool_calls: [{ name: 'search_hotels' }] },
+        { response: { contains: '?' } },
+      ],
+    };
+
+    it('any_of reports the matching branch and why the others failed', () => {
+      const results = evaluateStepAssertions(searchOrAsk, [], 'Which city?');
+      expect(results).toEqual([{
+        passed: true,
+        message: 'any_of: branch 2 matched: Response contains "?" | branch 1 failed: Expected tool call: search_hotels — not called',
+      }]);
+    });
+
+    it('any_of fails when no branch matches', () => {
+      const [result] = evaluateStepAssertions(searchOrAsk, [makeToolCall('book', {})], undefined);
+      expect(result).toEqual({
+        passed: false,
+        message: 'any_of: no branch matched — branch 1 failed: Expected tool call: search_hotels — not called | branch 2 failed: Expected a text response but got none',
+      });
+    });
+
+    it('all_of lists each failing branch', () => {
+      const [result] = evaluateStepAssertions({
+        all_of: [
+          { tool_calls: [{ name: 'search', args: { guests: 2 } }] },
+          { response: { not_contains: 'sorry' } },
+        ],
+      }, [makeToolCall('search', { guests: 3 })], 'Here you go');
+      expect(result).toEqual({
+        passed: false,
+        message: 'all_of: branch 1 failed: Args match: guests: expected 2, got 3',
+      });
+    });
+
+    it('not inverts a branch and nests inside other combinators', () => {
+      const calls = [makeToolCall('search', {})];
+      expect(evaluateStepAssertions({ not: { tool_calls: [{ name: 'delete' }] } }, calls, undefined)[0]!.passed).toBe(true);
+      expect(evaluateStepAssertions({
+        any_of: [{ not: { tool_calls: [{ name: 'search' }] } }, { response: { contains: 'ok' } }],
+      }, calls, 'ok')[0]!.passed).toBe(true);
+    });
+  });
 });
 
 describe('evaluateGlobalAssertions', () => {
@@ -198,4 +285,58 @@ describe('evaluateGlobalAssertions', () => {
     const results = evaluateGlobalAssertions(assert_, [], 3, 3000);
     expect(results.every(r => r.passed)).toBe(true);
   });
+
+  it('combines numeric and order assertions', () => {
+    const calls = [makeToolCall('search', {}, '1'), makeToolCall('book', {}, '2')];
+    const assert_: GlobalAssertion = {
+      any_of: [
+        { total_tool_calls: { lte: 1 } },
+        { tool_order: ['search', 'book'], total_turns: { lte: 4 } },
+      ],
+    };
+    const [result] = evaluateGlobalAssertions(assert_, calls, 3, 1000);
+    expect(result!.passed).toBe(true);
+    expect(result!.message).toBe(
+      'any_of: branch 2 matched: Tool order: search → book; Total turns <= 4 (got 3) | branch 1 failed: Total tool calls: expected <= 1, got 2',
+    );
+  });
+});
+
+describe('evaluateToolArgs', () => {
+  const tools: ToolDefinition[] = [{
+    name: 'search',
+    description: 'Search hotels',
+    parameters: {
+      type: 'object',
+      properties: { destination: { type: 'string' }, guests: { type: 'integer' } },
+      required: ['destination'],
+    },
+  }];
+
+  it('passes valid args', () => {
+    const results = evaluateToolArgs([makeToolCall('search', { destination: 'Paris', guests: 2 })], tools);
+    expect(results.every(r => r.passed)).toBe(true);
+  });
+
+  it('fails invalid args with the offending path', () => {
+    const results = evaluateToolArgs([makeToolCall('search', { guests: 'two' })], tools);
+    const messages = results.filter(r => !r.passed).map(r => r.message);
+    expect(messages).toEqual([
+      'Invalid args for search: args.destination: required property is missing',
+      'Invalid args for search: args.guests: expected integer, got string "two"',
+    ]);
+  });
+
+  it('fails unparseable args', () => {
+    const call: ToolCall = { id: 'tc_1', type: 'function', function: { name: 'search', arguments: '{"destination": ' } };
+    const results = evaluateToolArgs([call], tools);
+    expect(results[0]!.passed).toBe(false);
+    expect(results[0]!.message).toContain('not valid JSON');
+  });
+
+  it('fails calls to undeclared tools', () => {
+    const results = evaluateToolArgs([makeToolCall('delete_everything', {})], tools);
+    expect(results[0]!.passed).toBe(false);
+    expect(results[0]!.message).toContain('not declared');
+  });
 });
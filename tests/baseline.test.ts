@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { writeFileSync, mkdtempSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createBaseline, saveBaseline, loadBaseline, compareBaseline } from '../src/baseline.js';
+import type { TestResult } from '../src/types.js';
+import { makeTestResult, makeRunResult } from './helpers.js';
+
+function makeTest(name: string, overrides: Partial<TestResult> = {}): TestResult {
+  return makeTestResult({ name, totalTokens: 1000, estimatedCost: 0.01, durationMs: 2000, turns: 4, ...overrides });
+}
+
+describe('createBaseline', () => {
+  it('stores per-test metrics with relative paths', () => {
+    const baseline = createBaseline(makeRunResult([makeTest('Books', { variant: 'gpt-4o' })]), new Date('2026-01-01T00:00:00Z'));
+    expect(baseline).toEqual({
+      version: 1,
+      created_at: '2026-01-01T00:00:00.000Z',
+      tests: [{
+        name: 'Books',
+        file: 'tests/booking.test.yaml',
+        variant: 'gpt-4o',
+        passed: true,
+        tokens: 1000,
+        cost_usd: 0.01,
+        turns: 4,
+        duration_ms: 2000,
+      }],
+    });
+  });
+});
+
+describe('loadBaseline', () => {
+  it('round-trips a saved baseline and rejects other files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pmt-'));
+    const path = join(dir, 'baseline.json');
+    saveBaseline(path, makeRunResult([makeTest('Books')]));
+    expect(loadBaseline(path).tests).toHaveLength(1);
+
+    writeFileSync(path, '{"tests": []}');
+    expect(() => loadBaseline(path)).toThrow('is not a promptman-test baseline');
+    expect(() => loadBaseline(join(dir, 'missing.json'))).toThrow('Cannot read baseline');
+  });
+});
+
+describe('compareBaseline', () => {
+  const baseline = createBaseline(makeRunResult([
+    makeTest('Books'),
+    makeTest('Cancels', { passed: false }),
+    makeTest('Searches'),
+    makeTest('Removed'),
+  ]), new Date('2026-01-01T00:00:00Z'));
+
+  it('reports pass/fail transitions and metric changes', () => {
+    const comparison = compareBaseline(baseline, makeRunResult([
+      makeTest('Books', { passed: false, totalTokens: 1500, turns: 4 }),
+      makeTest('Cancels'),
+      makeTest('Searches', { totalTokens: 900 }),
+      makeTest('Added'),
+    ]));
+
+    expect(comparison.tests.map(t => [t.name, t.status])).toEqual([
+      ['Books', 'broken'],
+      ['Cancels', 'fixed'],
+      ['Searches', 'passing'],
+      ['Added', 'new'],
+      ['Removed', 'missing'],
+    ]);
+    expect(comparison.tests[0]!.tokens).toEqual({ before: 1000, after: 1500, change_pct: 50 });
+    expect(comparison.tests[2]!.tokens!.change_pct).toBe(-10);
+    expect(comparison).toMatchObject({ broken: 1, fixed: 1, regressions: 0 });
+  });
+
+  it('flags metrics that grow past their thresholds', () => {
+    const comparison = compareBaseline(baseline, makeRunResult([
+      makeTest('Books', { totalTokens: 1300, turns: 6 }),
+      makeTest('Searches', { totalTokens: 1100 }),
+    ]), { tokens: 20, turns: 100 });
+
+    expect(comparison.tests[0]!.regressions).toEqual(['tokens +30% (limit 20%)']);
+    expect(comparison.tests[1]!.regressions).toEqual([]);
+    expect(comparison.regressions).toBe(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { trackBudget } from '../src/budget.js';
+
+describe('trackBudget', () => {
+  it('accumulates usage without limits', () => {
+    const cancel = new AbortController();
+    const budget = trackBudget(undefined, cancel);
+    budget.add({ tokens: 500, cost: 0.01 });
+    budget.add({ tokens: 700, cost: 0.02 });
+
+    expect(budget.tokens).toBe(1200);
+    expect(budget.cost).toBeCloseTo(0.03);
+    expect(budget.exceeded).toBeUndefined();
+    expect(cancel.signal.aborted).toBe(false);
+  });
+
+  it('aborts once the cost limit is passed', () => {
+    const cancel = new AbortController();
+    const budget = trackBudget({ max_cost: 0.05 }, cancel);
+    budget.add({ tokens: 1000, cost: 0.05 });
+    expect(cancel.signal.aborted).toBe(false);
+
+    budget.add({ tokens: 100, cost: 0.01 });
+    expect(budget.exceeded).toEqual({ exceeded: 'cost', limit: 0.05 });
+    expect(cancel.signal.aborted).toBe(true);
+    expect((cancel.signal.reason as Error).message).toBe('Run budget exceeded: ~$0.060 spent, limit is $0.05');
+  });
+
+  it('aborts once the token limit is passed and keeps counting', () => {
+    const cancel = new AbortController();
+    const budget = trackBudget({ max_tokens: 1000 }, cancel);
+    budget.add({ tokens: 1200, cost: 0 });
+    budget.add({ tokens: 300, cost: 0 });
+
+    expect(budget.exceeded).toEqual({ exceeded: 'tokens', limit: 1000 });
+    expect(budget.tokens).toBe(1500);
+    expect((cancel.signal.reason as Error).message).toBe('Run budget exceeded: 1,200 tokens used, limit is 1,000');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parsePath, getPath } from '../src/jsonpath.js';
+import { evaluateCaptures, applyCaptures, type StepOutput } from '../src/capture.js';
+import type { ToolCall } from '../src/types.js';
+
+function makeToolCall(id: string, name: string, args: Record<string, unknown>): ToolCall {
+  return { id, type: 'function', function: { name, arguments: JSON.stringify(args) } };
+}
+
+function makeOutput(): StepOutput {
+  return {
+    toolCalls: [
+      makeToolCall('call_1', 'create_booking', { hotel: 'Ritz', nights: 2 }),
+      makeToolCall('call_2', 'create_booking', { hotel: 'Savoy', nights: 3 }),
+    ],
+    toolResults: new Map([
+      ['call_1', JSON.stringify({ booking: { id: 'BK-1' } })],
+      ['call_2', JSON.stringify({ booking: { id: 'BK-2', rooms: [{ number: 101 }] } })],
+    ]),
+    response: 'Your confirmation number is CNF-4821.',
+  };
+}
+
+describe('jsonpath', () => {
+  it('parses dotted keys, indexes and quoted keys', () => {
+    expect(parsePath("$.rooms[0]['room type']")).toEqual(['rooms', 0, 'room type']);
+    expect(parsePath('booking.id')).toEqual(['booking', 'id']);
+  });
+
+  it('reports where an invalid path goes wrong', () => {
+    expect(() => parsePath('$.a..b')).toThrow('Invalid path "$.a..b" at "..b"');
+  });
+
+  it('returns undefined for missing segments', () => {
+    expect(getPath({ a: [{ b: 1 }] }, '$.a[0].b')).toBe(1);
+    expect(getPath({ a: null }, '$.a.b')).toBeUndefined();
+  });
+});
+
+describe('evaluateCaptures', () => {
+  it('reads the last call to a tool by path', () => {
+    const { values, failures } = evaluateCaptures({
+      booking_id: { from: 'result.create_booking', path: '$.booking.id' },
+      room: { from: 'result.create_booking', path: '$.booking.rooms[0].number' },
+      hotel: { from: 'args.create_booking', path: '$.hotel' },
+    }, makeOutput());
+
+    expect(failures).toEqual([]);
+    expect(values).toEqual({ booking_id: 'BK-2', room: 101, hotel: 'Savoy' });
+  });
+
+  it('captures the first regex group from the response', () => {
+    const { values } = evaluateCaptures({
+      confirmation: { from: 'response', regex: 'CNF-\\d+' },
+      number: { from: 'response', regex: 'CNF-(\\d+)' },
+    }, makeOutput());
+    expect(values).toEqual({ confirmation: 'CNF-4821', number: '4821' });
+  });
+
+  it('reports missing values as failed assertions', () => {
+    const { values, failures } = evaluateCaptures({
+      a: { from: 'result.cancel_booking' },
+      b: { from: 'result.create_booking', path: '$.booking.ref' },
+      c: { from: 'response', regex: 'REF-\\d+' },
+    }, makeOutput());
+
+    expect(values).toEqual({});
+    expect(failures.map(f => f.message)).toEqual([
+      'Capture "a" from result.cancel_booking: no cancel_booking call in this step',
+      'Capture "b" from result.create_booking: nothing at $.booking.ref',
+      'Capture "c" from response: /REF-\\d+/ did not match',
+    ]);
+  });
+});
+
+describe('applyCaptures', () => {
+  it('fills captured placeholders and leaves others alone', () => {
+    const step = applyCaptures({
+      user: 'Cancel booking {{booking_id}} for {{customer}}',
+      expect: { tool_called: 'cancel_booking', tool_args: { booking_id: '{{booking_id}}' } },
+      mock: { cancel_booking: { return: { cancelled: '{{booking_id}}' } } },
+    }, { booking_id: 'BK-2' }, new Set(['booking_id']));
+
+    expect(step.user).toBe('Cancel booking BK-2 for {{customer}}');
+    expect(step.expect?.tool_args).toEqual({ booking_id: 'BK-2' });
+    expect(step.mock).toEqual({ cancel_booking: { return: { cancelled: 'BK-2' } } });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { writeFileSync, mkdtempSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { parseCSV, loadCases, renderTemplate, caseLabel } from '../src/cases.js';
+
+describe('parseCSV', () => {
+  it('parses a header row and quoted fields', () => {
+    const csv = 'destination,note\r\nParis,"late check-in, please"\nRome,"says ""ciao"""\n\n';
+    expect(parseCSV(csv)).toEqual([
+      { destination: 'Paris', note: 'late check-in, please' },
+      { destination: 'Rome', note: 'says "ciao"' },
+    ]);
+  });
+
+  it('keeps newlines inside quoted fields and fills missing cells', () => {
+    expect(parseCSV('a,b\n"one\ntwo"')).toEqual([{ a: 'one\ntwo', b: '' }]);
+  });
+});
+
+describe('loadCases', () => {
+  it('loads JSON and CSV files relative to the test file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pmt-'));
+    writeFileSync(join(dir, 'rows.json'), '[{"city": "Paris", "nights": 3}]');
+    writeFileSync(join(dir, 'rows.csv'), 'city\nRome\n');
+    writeFileSync(join(dir, 'rows.txt'), 'city: Rome');
+    const testFile = join(dir, 'booking.test.yaml');
+
+    expect(loadCases('./rows.json', testFile)).toEqual({
+      rows: [{ city: 'Paris', nights: 3 }],
+      source: join(dir, 'rows.json'),
+    });
+    expect(loadCases('rows.csv', testFile).rows).toEqual([{ city: 'Rome' }]);
+    expect(() => loadCases('missing.csv', testFile)).toThrow('cases file not found');
+    expect(() => loadCases('rows.txt', testFile)).toThrow('.csv or .json');
+  });
+});
+
+describe('renderTemplate', () => {
+  const vars = { city: 'Paris', nights: 3, guest: { name: 'Ada' } };
+
+  it('fills placeholders in nested strings', () => {
+    expect(renderTemplate({ user: 'Book {{ city }} for {{nights}} nights, {{guest.name}}' }, vars)).toEqual({
+      user: 'Book Paris for 3 nights, Ada',
+    });
+  });
+
+  it('keeps the type of a whole-string placeholder', () => {
+    expect(renderTemplate(['{{nights}}', '{{guest}}'], vars)).toEqual([3, { name: 'Ada' }]);
+  });
+
+  it('rejects unknown variables', () => {
+    expect(() => renderTemplate('Hi {{who}}', vars)).toThrow('Unknown variable {{who}}');
+  });
+});
+
+describe('caseLabel', () => {
+  it('prefers _name and otherwise lists the values', () => {
+    expect(caseLabel({ _name: 'weekend trip', city: 'Paris' }, 0)).toBe('weekend trip');
+    expect(caseLabel({ city: 'Paris', nights: 3 }, 0)).toBe('city=Paris, nights=3');
+  });
+
+  it('numbers truncated labels so long rows stay distinct', () => {
+    const row = { destination: 'Barcelona', check_in: '2026-03-01', check_out: '2026-03-05' };
+    const first = caseLabel(row, 0);
+    const second = caseLabel({ ...row, check_out: '2026-03-07' }, 1);
+    expect(first).toBe('destination=Barcelona, check_in=2026-03-01, check_out=20… #1');
+    expect(second).toMatch(/… #2$/);
+    expect(first).not.toBe(second);
+    expect(first.length).toBe(60);
+  });
+});
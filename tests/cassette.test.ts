@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Cassette, cassettePath, cassetteFingerprint } from '../src/cassette.js';
+import { executeTest } from '../src/executor.js';
+import type { ChatCompletionRequest, ChatCompletionResponse, Config, TestDefinition } from '../src/types.js';
+
+const meta = { test: 'Greets', model: 'gpt-4o', fingerprint: 'abc' };
+
+function makeRequest(content: string): ChatCompletionRequest {
+  return {
+    model: 'gpt-4o',
+    messages: [
+      { role: 'system', content: 'You are helpful' },
+      { role: 'user', content },
+    ],
+  };
+}
+
+function makeResponse(content: string): ChatCompletionResponse {
+  return {
+    id: 'cmpl_1',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  };
+}
+
+function recordOne(path: string): void {
+  const cassette = Cassette.open('record', path, meta);
+  cassette.record(makeRequest('Hi'), makeResponse('Hello there'));
+  cassette.finish();
+}
+
+describe('cassettePath', () => {
+  it('defaults to __cassettes__ next to the test file', () => {
+    const path = cassettePath('/proj/tests/booking.test.yaml', 'Books a Hotel!');
+    expect(path).toBe('/proj/tests/__cassettes__/booking.books-a-hotel-8d8c8b0d.cassette.json');
+  });
+
+  it('mirrors the test file\'s directory under a custom directory', () => {
+    const cwd = process.cwd();
+    expect(cassettePath(join(cwd, 'tests/booking.test.yml'), 'Books', '/tmp/cassettes'))
+      .toBe('/tmp/cassettes/tests/booking.books-9da7f76b.cassette.json');
+    expect(cassettePath(join(cwd, 'tests/billing/smoke.test.yaml'), 'greets', '/tmp/cassettes'))
+      .not.toBe(cassettePath(join(cwd, 'tests/support/smoke.test.yaml'), 'greets', '/tmp/cassettes'));
+    expect(cassettePath(join(dirname(cwd), 'other/smoke.test.yaml'), 'greets', '/tmp/cassettes'))
+      .toBe('/tmp/cassettes/_/other/smoke.greets-ce4f3416.cassette.json');
+  });
+
+  it('keeps names that slugify alike apart', () => {
+    const paths = ['Refund A/B', 'Refund A-B', 'Refund: a b', 'Über', 'Ãœber', 'Бронь', 'Заказ']
+      .map(name => cassettePath('/proj/tests/refund.test.yaml', name));
+    expect(new Set(paths).size).toBe(paths.length);
+    expect(paths[3]).toBe('/proj/tests/__cassettes__/refund.uber-32b332a3.cassette.json');
+  });
+});
+
+describe('Cassette', () => {
+  it('records and replays interactions', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'c.cassette.json');
+    recordOne(path);
+    expect(existsSync(path)).toBe(true);
+
+    const replay = Cassette.open('replay', path, meta);
+    expect(replay.replay(makeRequest('Hi')).choices[0]!.message.content).toBe('Hello there');
+    expect(() => replay.finish()).not.toThrow();
+  });
+
+  it('fails when no cassette exists', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'missing.cassette.json');
+    expect(() => Cassette.open('replay', path, meta)).toThrow('--record');
+  });
+
+  it('fails when the model changed', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'c.cassette.json');
+    recordOne(path);
+    expect(() => Cassette.open('replay', path, { ...meta, model: 'gpt-4.1' })).toThrow('gpt-4.1');
+  });
+
+  it('fails when the prompt or tools changed', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'c.cassette.json');
+    recordOne(path);
+    expect(() => Cassette.open('replay', path, { ...meta, fingerprint: 'def' })).toThrow('changed');
+  });
+
+  it('reports where the conversation diverged', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'c.cassette.json');
+    recordOne(path);
+    const replay = Cassette.open('replay', path, meta);
+    expect(() => replay.replay(makeRequest('Bye'))).toThrow('request.messages[1].content');
+  });
+
+  it('fails on calls beyond the recording', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'c.cassette.json');
+    recordOne(path);
+    const replay = Cassette.open('replay', path, meta);
+    replay.replay(makeRequest('Hi'));
+    expect(() => replay.replay(makeRequest('Hi'))).toThrow('#2 was not recorded');
+  });
+
+  it('fails when recorded calls were not replayed', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'c.cassette.json');
+    recordOne(path);
+    const replay = Cassette.open('replay', path, meta);
+    expect(() => replay.finish()).toThrow('only 0 of 1');
+  });
+});
+
+describe('executeTest with a replayed cassette', () => {
+  const config: Config = {
+    provider: { base_url: 'http://localhost:1', model: 'gpt-4o' },
+    settings: { timeout: 1000, max_turns: 5, verbose: false },
+  };
+
+  const test: TestDefinition = {
+    name: 'Greets',
+    system_prompt: 'You are helpful',
+    tools: [],
+    steps: [{ user: 'Hi', expect: { response: { contains: 'Hello' } } }],
+  };
+
+  it('runs offline from the recorded responses', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pmt-'));
+    const file = join(dir, 'greet.test.yaml');
+    const path = cassettePath(file, test.name);
+    const cassette = Cassette.open('record', path, {
+      test: test.name,
+      model: 'gpt-4o',
+      fingerprint: cassetteFingerprint('gpt-4o', 'You are helpful', []),
+    });
+    cassette.record(makeRequest('Hi'), makeResponse('Hello there'));
+    cassette.finish();
+
+    const result = await executeTest(test, config, file, { cassette: { mode: 'replay' } });
+    expect(result.error).toBeUndefined();
+    expect(result.passed).toBe(true);
+    expect(result.totalTokens).toBe(15);
+    expect(JSON.parse(readFileSync(path, 'utf-8')).interactions).toHaveLength(1);
+  });
+
+  it('errors clearly when the user message changed', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pmt-'));
+    const file = join(dir, 'greet.test.yaml');
+    const cassette = Cassette.open('record', cassettePath(file, test.name), {
+      test: test.name,
+      model: 'gpt-4o',
+      fingerprint: cassetteFingerprint('gpt-4o', 'You are helpful', []),
+    });
+    cassette.record(makeRequest('Hello?'), makeResponse('Hello there'));
+    cassette.finish();
+
+    const result = await executeTest(test, config, file, { cassette: { mode: 'replay' } });
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain('Conversation diverged at LLM call #1');
+  });
+
+  it('keeps the cost of calls made before the error', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pmt-'));
+    const file = join(dir, 'greet.test.yaml');
+    const cassette = Cassette.open('record', cassettePath(file, test.name), {
+      test: test.name,
+      model: 'gpt-4o',
+      fingerprint: cassetteFingerprint('gpt-4o', 'You are helpful', []),
+    });
+    cassette.record(makeRequest('Hi'), makeResponse('Hello there'));
+    cassette.finish();
+
+    const twoSteps = { ...test, steps: [...test.steps, { user: 'Bye' }] };
+    const result = await executeTest(twoSteps, config, file, { cassette: { mode: 'replay' } });
+    expect(result.error).toBeDefined();
+    expect(result.totalTokens).toBe(15);
+    expect(result.estimatedCost).toBeGreaterThan(0);
+  });
+});
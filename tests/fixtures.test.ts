@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { writeFileSync, mkdtempSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { loadTestDocuments, sourceOf, FixtureError } from '../src/fixtures.js';
+
+function writeFiles(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pmt-'));
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, name)), { recursive: true });
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+describe('loadTestDocuments', () => {
+  it('merges extends bases under the file\'s own keys', () => {
+    const dir = writeFiles({
+      'fixtures/base.yaml': `
+provider:
+  model: gpt-4o
+  temperature: 0
+tools:
+  - name: search
+system_prompt: Base prompt
+`,
+      'a.test.yaml': `
+extends: ./fixtures/base.yaml
+name: A
+provider:
+  temperature: 0.5
+steps:
+  - user: hi
+`,
+    });
+    const { docs: [doc], fixtures } = loadTestDocuments(join(dir, 'a.test.yaml'));
+
+    expect(doc).toEqual({
+      name: 'A',
+      provider: { model: 'gpt-4o', temperature: 0.5 },
+      tools: [{ name: 'search' }],
+      system_prompt: 'Base prompt',
+      steps: [{ user: 'hi' }],
+    });
+    expect(fixtures).toEqual([join(dir, 'fixtures/base.yaml')]);
+  });
+
+  it('replaces $include and $ref values, splicing included lists', () => {
+    const dir = writeFiles({
+      'shared/login.yaml': `
+- user: Log me in
+- user: "{{name}} here"
+`,
+      'shared/tools.yaml': `
+search:
+  name: search
+book:
+  name: book
+`,
+      'shared/prompt.md': 'You are a booking agent.',
+      'a.test.yaml': `
+name: A
+system_prompt: { $include: ./shared/prompt.md }
+tools:
+  - $ref: ./shared/tools.yaml#/search
+  - $ref: ./shared/tools.yaml#/book
+    description: Book a room
+steps:
+  - $include: ./shared/login.yaml
+  - user: Book it
+    mock: { $ref: "#/mocks" }
+mocks:
+  book: { id: 1 }
+`,
+    });
+    const { docs: [doc] } = loadTestDocuments(join(dir, 'a.test.yaml'));
+
+    expect(doc).toMatchObject({
+      system_prompt: 'You are a booking agent.',
+      tools: [{ name: 'search' }, { name: 'book', description: 'Book a room' }],
+      steps: [
+        { user: 'Log me in' },
+        { user: '{{name}} here' },
+        { user: 'Book it', mock: { book: { id: 1 } } },
+      ],
+    });
+  });
+
+  it('keeps local $refs within their own YAML document', () => {
+    const dir = writeFiles({
+      'a.test.yaml': 'name: A\nmock: { $ref: "#/mocks" }\nmocks: { id: 1 }\n---\nname: B\nmock: { $ref: "#/mocks" }\nmocks: { id: 2 }\n',
+    });
+    const { docs } = loadTestDocuments(join(dir, 'a.test.yaml'));
+
+    expect(docs.map(doc => (doc as { mock: unknown }).mock)).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('detects cycles and names the file that closes them', () => {
+    const dir = writeFiles({
+      'a.test.yaml': 'extends: ./b.yaml\nname: A\n',
+      'b.yaml': 'steps: { $include: ./a.test.yaml }\n',
+    });
+
+    let error: unknown;
+    try {
+      loadTestDocuments(join(dir, 'a.test.yaml'));
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(FixtureError);
+    expect((error as FixtureError).file).toBe(join(dir, 'b.yaml'));
+    expect((error as Error).message).toMatch(/^Circular include: .*a\.test\.yaml → .*b\.yaml → .*a\.test\.yaml$/);
+  });
+
+  it('reports missing files and pointers against the including file', () => {
+    const dir = writeFiles({
+      'a.test.yaml': 'tools: { $include: ./missing.yaml }\n',
+      'b.test.yaml': 'tools: { $ref: "./a.test.yaml#/nope" }\n',
+    });
+
+    expect(() => loadTestDocuments(join(dir, 'a.test.yaml'))).toThrow('$include file not found: ./missing.yaml');
+    expect(() => loadTestDocuments(join(dir, 'b.test.yaml'))).toThrow('$ref target not found');
+  });
+});
+
+describe('sourceOf', () => {
+  it('finds the file each part of a document came from', () => {
+    const dir = writeFiles({
+      'steps.yaml': '- user: shared\n',
+      'a.test.yaml': 'steps:\n  - user: own\n  - $include: ./steps.yaml\n',
+    });
+    const file = join(dir, 'a.test.yaml');
+    const { docs: [doc] } = loadTestDocuments(file);
+
+    expect(sourceOf(doc, ['steps', 0], 'fallback')).toBe(file);
+    expect(sourceOf(doc, ['steps', 1], 'fallback')).toBe(join(dir, 'steps.yaml'));
+    expect(sourceOf({}, ['steps', 1], 'fallback')).toBe('fallback');
+  });
+});
@@ -0,0 +1,36 @@
+import type { RunResult, TestResult } from '../src/types.js';
+
+// ── Shared Test Fixtures ────────────────────────────────────────────────────
+
+/** A passing test result from tests/booking.test.yaml, with `overrides` applied. */
+export function makeTestResult(overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    name: 'Books a hotel',
+    file: `${process.cwd()}/tests/booking.test.yaml`,
+    passed: true,
+    steps: [],
+    globalAssertions: [],
+    totalTokens: 1200,
+    estimatedCost: 0.004,
+    durationMs: 2500,
+    ...overrides,
+  };
+}
+
+/** A run of `tests`, with the summary and token totals counted from them. */
+export function makeRunResult(tests: TestResult[]): RunResult {
+  return {
+    tests,
+    summary: {
+      passed: tests.filter(t => t.passed).length,
+      failed: tests.filter(t => !t.passed && !t.error).length,
+      total: tests.length,
+      errors: tests.filter(t => !!t.error).length,
+    },
+    tokens: {
+      total: tests.reduce((sum, t) => sum + t.totalTokens, 0),
+      cost_usd: tests.reduce((sum, t) => sum + t.estimatedCost, 0),
+    },
+    duration_ms: 4000,
+  };
+}
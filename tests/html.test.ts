@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { reportHTML } from '../src/html.js';
+import { makeTestResult, makeRunResult } from './helpers.js';
+
+const failing = makeTestResult({
+  passed: false,
+  systemPrompt: 'You are a <booking> assistant.',
+  steps: [{
+    stepIndex: 0,
+    userMessage: 'Book the Ritz',
+    toolCalls: [],
+    passed: false,
+    assertions: [
+      { passed: true, message: 'Called search_hotels' },
+      { passed: false, message: 'Response should contain "confirmed"' },
+    ],
+    messages: [
+      { role: 'user', content: 'Book the Ritz' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search_hotels', arguments: '{"name":"Ritz"}' } }],
+      },
+      { role: 'tool', content: '[{"id":"h1"}]', tool_call_id: 'call_1' },
+      { role: 'assistant', content: 'Sorry, no rooms.' },
+    ],
+  }],
+});
+
+describe('reportHTML', () => {
+  const html = reportHTML(makeRunResult([makeTestResult(), failing]), new Date('2026-01-02T03:04:05Z'));
+
+  it('is a single page without external assets', () => {
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toMatch(/<(link|script) [^>]*(href|src)=/);
+    expect(html).toContain('Generated 2026-01-02T03:04:05.000Z');
+  });
+
+  it('renders the full transcript with escaped content', () => {
+    expect(html).toContain('You are a &lt;booking&gt; assistant.');
+    expect(html).toContain('<span class="name">search_hotels</span><pre>{\n  &quot;name&quot;: &quot;Ritz&quot;\n}</pre>');
+    expect(html).toContain('Mock result · search_hotels</div><pre>[\n  {\n    &quot;id&quot;: &quot;h1&quot;\n  }\n]</pre>');
+    expect(html).toContain('Sorry, no rooms.');
+  });
+
+  it('highlights failing assertions and opens failed tests', () => {
+    expect(html).toContain('<div class="assertion fail">✗ Response should contain &quot;confirmed&quot;</div>');
+    expect(html).toContain('<details class="test fail" data-status="fail" data-name="books a hotel tests/booking.test.yaml" open>');
+    expect(html).toContain('<details class="test pass" data-status="pass" data-name="books a hotel tests/booking.test.yaml">');
+    expect(html).toContain('<button data-filter="failed">Failed (1)</button>');
+  });
+
+  it('groups tests under a header per file', () => {
+    const grouped = reportHTML(makeRunResult([
+      makeTestResult(),
+      makeTestResult({ name: 'Weather', file: `${process.cwd()}/tests/weather.test.yaml` }),
+      failing,
+    ]));
+    const sections = grouped.split('<section class="file">').slice(1);
+    expect(sections).toHaveLength(2);
+    expect(sections[0]).toContain('<h2><span class="badge fail">fail</span> tests/booking.test.yaml <span class="meta">1 passed · 1 failed · ');
+    expect(sections[0]).toContain('data-name="books a hotel tests/booking.test.yaml" open>');
+    expect(sections[1]).toContain('tests/weather.test.yaml <span class="meta">1 passed · ');
+  });
+});
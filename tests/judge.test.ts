@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { parseVerdict, evaluateJudgeAssertion } from '../src/judge.js';
+import type { ChatCompletionRequest, Config } from '../src/types.js';
+
+describe('parseVerdict', () => {
+  it('parses a JSON verdict', () => {
+    expect(parseVerdict('{"score": 8, "reasoning": "Polite and helpful."}')).toEqual({
+      score: 8,
+      reasoning: 'Polite and helpful.',
+    });
+  });
+
+  it('tolerates code fences and surrounding prose', () => {
+    const verdict = parseVerdict('Here you go:\n```json\n{"score": "3", "reasoning": "Rude"}\n```');
+    expect(verdict).toEqual({ score: 3, reasoning: 'Rude' });
+  });
+
+  it('returns null without a score', () => {
+    expect(parseVerdict('I think it is fine')).toBeNull();
+    expect(parseVerdict('{"reasoning": "no score"}')).toBeNull();
+  });
+});
+
+describe('evaluateJudgeAssertion', () => {
+  let server: Server;
+  let baseUrl: string;
+  let score = 9;
+  const requests: ChatCompletionRequest[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        requests.push(JSON.parse(data) as ChatCompletionRequest);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          id: 'cmpl_1',
+          choices: [{
+            index: 0,
+            message: { role: 'assistant', content: JSON.stringify({ score, reasoning: 'Declines and offers an alternative.' }) },
+            finish_reason: 'stop',
+          }],
+          usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  function makeConfig(): Config {
+    return {
+      provider: { base_url: 'http://127.0.0.1:1/v1', model: 'gpt-4o-mini', api_key: 'sk-main' },
+      judge: { base_url: baseUrl, model: 'gpt-4o' },
+      settings: { timeout: 5000, max_turns: 5, verbose: false },
+    };
+  }
+
+  it('passes when the score reaches the threshold and reports the reasoning', async () => {
+    score = 9;
+    const outcome = await evaluateJudgeAssertion(
+      { rubric: 'Politely declines and offers an alternative', threshold: 8 },
+      'Can you book a flight?',
+      'Sorry, I can only book hotels — but I can find you one near the airport.',
+      makeConfig(),
+    );
+    expect(outcome.result.passed).toBe(true);
+    expect(outcome.result.message).toContain('9/10');
+    expect(outcome.result.message).toContain('Declines and offers an alternative.');
+    expect(outcome.model).toBe('gpt-4o');
+    expect(outcome.inputTokens).toBe(120);
+    expect(outcome.outputTokens).toBe(30);
+
+    const request = requests[requests.length - 1]!;
+    expect(request.model).toBe('gpt-4o');
+    expect(request.messages[1]!.content).toContain('Politely declines');
+    expect(request.messages[1]!.content).toContain('Can you book a flight?');
+  });
+
+  it('fails below the default threshold', async () => {
+    score = 4;
+    const outcome = await evaluateJudgeAssertion('Politely declines', undefined, 'No.', makeConfig());
+    expect(outcome.result.passed).toBe(false);
+    expect(outcome.result.message).toContain('scored 4/10 (threshold 7)');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { matchArgs, matchValue, allPassed } from '../src/matchers.js';
+
+const order = {
+  customer: { name: 'Ada', address: { city: 'Paris', zip: '75001' } },
+  items: [
+    { sku: 'A-1', qty: 2 },
+    { sku: 'B-7', qty: 1 },
+  ],
+  tags: ['gift', 'express'],
+};
+
+describe('matchArgs', () => {
+  it('resolves dotted and indexed paths', () => {
+    const results = matchArgs(order, {
+      'customer.address.city': 'Paris',
+      'items[1].sku': { matches: '^B-' },
+      '$.items[0].qty': { gte: 2 },
+    }, 'Args match: ');
+
+    expect(allPassed(results)).toBe(true);
+    expect(results.map(r => r.message)).toEqual([
+      'Args match: customer.address.city = "Paris"',
+      'Args match: items[1].sku matches /^B-/',
+      'Args match: items[0].qty >= 2',
+    ]);
+  });
+
+  it('prefers a literal key that contains a dot', () => {
+    expect(allPassed(matchArgs({ 'a.b': 1, a: { b: 2 } }, { 'a.b': 1 }))).toBe(true);
+  });
+
+  it('matches nested objects recursively, ignoring extra keys', () => {
+    const results = matchArgs(order, { customer: { address: { city: 'Paris', zip: { matches: '^750' } } } });
+    expect(allPassed(results)).toBe(true);
+
+    const failed = matchArgs(order, { customer: { address: { city: 'Rome' } } });
+    expect(failed).toEqual([{ passed: false, message: 'customer.address.city: expected "Rome", got "Paris"' }]);
+  });
+
+  it('reports a missing nested path', () => {
+    const [result] = matchArgs(order, { 'customer.phone': { contains: '+33' } });
+    expect(result).toEqual({ passed: false, message: 'customer.phone: expected to contain "+33", got ""' });
+  });
+});
+
+describe('array matchers', () => {
+  it('checks length with a number or range', () => {
+    expect(allPassed(matchValue(order.items, { length: 2 }, 'items'))).toBe(true);
+    expect(matchValue(order.items, { length: { gte: 3 } }, 'items')).toEqual([
+      { passed: false, message: 'items.length: expected >= 3, got 2' },
+    ]);
+  });
+
+  it('checks includes against any element', () => {
+    expect(allPassed(matchValue(order.tags, { includes: 'gift' }, 'tags'))).toBe(true);
+    expect(allPassed(matchValue(order.items, { includes: { sku: 'B-7', qty: 1 } }, 'items'))).toBe(true);
+    expect(allPassed(matchValue(order.items, { includes: { sku: 'C-9' } }, 'items'))).toBe(false);
+  });
+
+  it('checks every element and names the first failure', () => {
+    expect(allPassed(matchValue(order.items, { every: { qty: { gte: 1 } } }, 'items'))).toBe(true);
+    expect(matchValue(order.items, { every: { qty: { gte: 2 } } }, 'items')).toEqual([
+      { passed: false, message: 'items[1].qty: expected >= 2, got 1' },
+    ]);
+  });
+
+  it('matches a plain array element by element', () => {
+    expect(allPassed(matchValue(order.tags, ['gift', { contains: 'press' }], 'tags'))).toBe(true);
+    expect(matchValue(order.tags, ['gift'], 'tags')[0]!.message).toBe('tags: expected 1 element(s), got 2');
+  });
+
+  it('fails array matchers on non-arrays', () => {
+    expect(matchValue('gift', { includes: 'gift' }, 'tags')[0]!.message).toBe('tags: expected an array, got gift');
+  });
+});
+
+describe('equals', () => {
+  it('compares objects deeply and primitives as strings', () => {
+    expect(allPassed(matchValue({ a: [1, 2] }, { equals: { a: [1, 2] } }, 'x'))).toBe(true);
+    expect(allPassed(matchValue({ a: [1, 2], b: 1 }, { equals: { a: [1, 2] } }, 'x'))).toBe(false);
+    expect(allPassed(matchValue(3, { equals: '3' }, 'x'))).toBe(true);
+  });
+});
+
+describe('loose matching', () => {
+  it('lets null match anything and compares primitives as strings', () => {
+    expect(allPassed(matchValue('Paris', null, 'x', { loose: true }))).toBe(true);
+    expect(allPassed(matchValue('true', true, 'x', { loose: true }))).toBe(true);
+    expect(allPassed(matchArgs({ a: { b: '3' } }, { 'a.b': 3 }, '', { loose: true }))).toBe(true);
+    expect(allPassed(matchValue(false, true, 'x', { loose: true }))).toBe(false);
+  });
+
+  it('is off by default, as for assertions', () => {
+    expect(allPassed(matchValue('Paris', null, 'x'))).toBe(false);
+    expect(allPassed(matchValue('true', true, 'x'))).toBe(false);
+  });
+});
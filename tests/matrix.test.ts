@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { parseModelList } from '../src/config.js';
+import { resolveVariants, applyVariant, summarizeMatrix, meanLatency } from '../src/matrix.js';
+import type { Config, TestDefinition, TestResult } from '../src/types.js';
+
+function makeConfig(matrix?: Config['matrix']): Config {
+  return {
+    provider: { base_url: 'https://api.openai.com/v1', model: 'gpt-4o', api_key: 'sk-openai' },
+    matrix,
+    settings: { timeout: 5000, max_turns: 5, verbose: false },
+  };
+}
+
+function makeResult(variant: string, passed: boolean, latencies: number[]): TestResult {
+  return {
+    name: 'Books a room',
+    file: '/t/booking.test.yaml',
+    variant,
+    passed,
+    steps: [{
+      stepIndex: 0,
+      assertions: [],
+      toolCalls: [],
+      passed,
+      timings: latencies.map(latencyMs => ({ latencyMs })),
+    }],
+    globalAssertions: [],
+    totalTokens: 100,
+    estimatedCost: 0.01,
+    durationMs: 1000,
+  };
+}
+
+describe('parseModelList', () => {
+  it('splits models and infers Anthropic for claude models', () => {
+    expect(parseModelList('gpt-4o, gpt-4.1-mini,claude-sonnet-4,anthropic:my-proxy-model')).toEqual([
+      { model: 'gpt-4o' },
+      { model: 'gpt-4.1-mini' },
+      { type: 'anthropic', model: 'claude-sonnet-4' },
+      { type: 'anthropic', model: 'my-proxy-model' },
+    ]);
+  });
+});
+
+describe('resolveVariants', () => {
+  it('returns the base config without a matrix', () => {
+    const config = makeConfig();
+    expect(resolveVariants(config)).toEqual([{ config }]);
+  });
+
+  it('applies each entry as a provider override and pins the judge', () => {
+    const variants = resolveVariants(makeConfig([
+      { model: 'gpt-4.1-mini' },
+      { type: 'anthropic', model: 'claude-sonnet-4', api_key: 'sk-ant' },
+    ]));
+
+    expect(variants.map(v => v.label)).toEqual(['gpt-4.1-mini', 'claude-sonnet-4']);
+    expect(variants[0]!.config.provider).toMatchObject({ model: 'gpt-4.1-mini', api_key: 'sk-openai' });
+    expect(variants[1]!.config.provider).toMatchObject({
+      type: 'anthropic',
+      base_url: 'https://api.anthropic.com/v1',
+      api_key: 'sk-ant',
+    });
+    expect(variants[1]!.config.judge?.model).toBe('gpt-4o');
+  });
+
+  it('rejects duplicate labels', () => {
+    expect(() => resolveVariants(makeConfig([{ model: 'gpt-4o' }, { model: 'gpt-4o', base_url: 'http://localhost:1/v1' }])))
+      .toThrow('Duplicate matrix entry "gpt-4o"');
+  });
+});
+
+describe('applyVariant', () => {
+  it('drops the test provider model but keeps its other settings', () => {
+    const test: TestDefinition = {
+      name: 'Test',
+      system_prompt: 'x',
+      steps: [],
+      provider: { model: 'gpt-4o', max_tokens: 512 },
+    };
+    expect(applyVariant(test, { label: 'gpt-4.1-mini', config: makeConfig() }).provider).toEqual({ max_tokens: 512 });
+    expect(applyVariant(test, { config: makeConfig() })).toBe(test);
+  });
+});
+
+describe('summarizeMatrix', () => {
+  it('totals results per variant in matrix order', () => {
+    const results = [
+      makeResult('gpt-4o', true, [800, 1200]),
+      makeResult('gpt-4.1-mini', false, [400]),
+      makeResult('gpt-4o', true, []),
+    ];
+    expect(meanLatency(results[0]!)).toBe(1000);
+    expect(summarizeMatrix(results, ['gpt-4o', 'gpt-4.1-mini'])).toEqual([
+      { variant: 'gpt-4o', passed: 2, failed: 0, errors: 0, total: 2, tokens: 200, cost_usd: 0.02, latency_ms: 1000 },
+      { variant: 'gpt-4.1-mini', passed: 0, failed: 1, errors: 0, total: 1, tokens: 100, cost_usd: 0.01, latency_ms: 400 },
+    ]);
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { resolveMocks } from '../src/mocks.js';
+import { resolveMocks, MockSession } from '../src/mocks.js';
+import { writeFileSync, mkdtempSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import type { ToolCall, StepMock } from '../src/types.js';
 
 function makeToolCall(name: string, args: Record<string, unknown>, id = 'tc_1'): ToolCall {
@@ -11,32 +14,32 @@ function makeToolCall(name: string, args: Record<string, unknown>, id = 'tc_1'):
 }
 
 describe('resolveMocks', () => {
-  it('returns simple mock value', () => {
+  it('returns simple mock value', async () => {
     const calls = [makeToolCall('search', { q: 'test' })];
     const mock: StepMock = {
       search: { return: [{ id: 1, name: 'Result' }] },
     };
-    const results = resolveMocks(calls, mock);
+    const results = await resolveMocks(calls, mock);
     expect(results.get('tc_1')).toBe(JSON.stringify([{ id: 1, name: 'Result' }]));
   });
 
-  it('returns error mock', () => {
+  it('returns error mock', async () => {
     const calls = [makeToolCall('search', {})];
     const mock: StepMock = {
       search: { error: 'Service unavailable' },
     };
-    const results = resolveMocks(calls, mock);
+    const results = await resolveMocks(calls, mock);
     expect(results.get('tc_1')).toContain('error');
     expect(results.get('tc_1')).toContain('Service unavailable');
   });
 
-  it('returns default for undefined mock', () => {
+  it('returns default for undefined mock', async () => {
     const calls = [makeToolCall('unknown_tool', {})];
-    const results = resolveMocks(calls, undefined);
+    const results = await resolveMocks(calls, undefined);
     expect(results.get('tc_1')).toContain('Mock not defined');
   });
 
-  it('handles conditional mocks', () => {
+  it('handles conditional mocks', async () => {
     const calls = [makeToolCall('search', { destination: 'Maldives' })];
     const mock: StepMock = {
       search: {
@@ -46,11 +49,38 @@ describe('resolveMocks', () => {
         ],
       },
     };
-    const results = resolveMocks(calls, mock);
+    const results = await resolveMocks(calls, mock);
     expect(results.get('tc_1')).toBe(JSON.stringify([{ id: 'h1' }]));
   });
 
-  it('falls through to default in conditional mocks', () => {
+  it('matches conditions on nested args and arrays', async () => {
+    const calls = [makeToolCall('checkout', { address: { country: 'FR' }, items: [{ sku: 'A-1' }, { sku: 'B-7' }] })];
+    const mock: StepMock = {
+      checkout: {
+        conditions: [
+          { when: { 'address.country': 'US' }, return: { shipping: 5 } },
+          { when: { address: { country: 'FR' }, items: { includes: { sku: 'B-7' } } }, return: { shipping: 12 } },
+        ],
+      },
+    };
+    const results = await resolveMocks(calls, mock);
+    expect(results.get('tc_1')).toBe(JSON.stringify({ shipping: 12 }));
+  });
+
+  it('keeps loose condition matching: null matches anything, true matches "true"', async () => {
+    const calls = [makeToolCall('book', { hotel: 'h1', refundable: 'true' })];
+    const mock: StepMock = {
+      book: {
+        conditions: [
+          { when: { hotel: null, refundable: true }, return: { booked: true } },
+        ],
+      },
+    };
+    const results = await resolveMocks(calls, mock);
+    expect(results.get('tc_1')).toBe(JSON.stringify({ booked: true }));
+  });
+
+  it('falls through to default in conditional mocks', async () => {
     const calls = [makeToolCall('search', { destination: 'Tokyo' })];
     const mock: StepMock = {
       search: {
@@ -60,20 +90,20 @@ describe('resolveMocks', () => {
         default: { return: [] },
       },
     };
-    const results = resolveMocks(calls, mock);
+    const results = await resolveMocks(calls, mock);
     expect(results.get('tc_1')).toBe(JSON.stringify([]));
   });
 
-  it('handles raw value as return', () => {
+  it('handles raw value as return', async () => {
     const calls = [makeToolCall('get_time', {})];
     const mock: StepMock = {
       get_time: '14:30',
     };
-    const results = resolveMocks(calls, mock);
+    const results = await resolveMocks(calls, mock);
     expect(results.get('tc_1')).toBe('14:30');
   });
 
-  it('handles multiple tool calls', () => {
+  it('handles multiple tool calls', async () => {
     const calls = [
       makeToolCall('search', { q: 'a' }, 'tc_1'),
       makeToolCall('details', { id: '1' }, 'tc_2'),
@@ -82,9 +112,95 @@ describe('resolveMocks', () => {
       search: { return: [{ id: 1 }] },
       details: { return: { name: 'Hotel A' } },
     };
-    const results = resolveMocks(calls, mock);
+    const results = await resolveMocks(calls, mock);
     expect(results.size).toBe(2);
     expect(results.get('tc_1')).toBe(JSON.stringify([{ id: 1 }]));
     expect(results.get('tc_2')).toBe(JSON.stringify({ name: 'Hotel A' }));
   });
 });
+
+describe('sequence mocks', () => {
+  const poll = async (session: MockSession, mock: StepMock) =>
+    (await resolveMocks([makeToolCall('check_status', { id: 'job_1' })], mock, session)).get('tc_1');
+
+  it('returns one entry per call and repeats the last by default', async () => {
+    const session = new MockSession();
+    const mock: StepMock = {
+      check_status: { sequence: [{ return: { status: 'pending' } }, { error: 'Timeout' }, { return: { status: 'done' } }] },
+    };
+    expect(await poll(session, mock)).toBe('{"status":"pending"}');
+    expect(await poll(session, mock)).toBe('{"error":"Timeout"}');
+    expect(await poll(session, mock)).toBe('{"status":"done"}');
+    expect(await poll(session, mock)).toBe('{"status":"done"}');
+  });
+
+  it('supports cycle and error exhaustion policies', async () => {
+    const cycling = new MockSession();
+    const cycle: StepMock = { check_status: { sequence: [{ return: 'a' }, { return: 'b' }], on_exhausted: 'cycle' } };
+    expect([await poll(cycling, cycle), await poll(cycling, cycle), await poll(cycling, cycle)]).toEqual(['a', 'b', 'a']);
+
+    const strict = new MockSession();
+    const error: StepMock = { check_status: { sequence: [{ return: 'a' }], on_exhausted: 'error' } };
+    await poll(strict, error);
+    expect(await poll(strict, error)).toContain('Mock sequence for check_status exhausted after 1 call(s)');
+  });
+
+  it('resets step-scoped counters each step but keeps test-scoped ones', async () => {
+    const session = new MockSession();
+    const stepScoped: StepMock = { check_status: { sequence: [{ return: 'first' }, { return: 'second' }] } };
+    const testScoped: StepMock = { check_status: { sequence: [{ return: 'first' }, { return: 'second' }], scope: 'test' } };
+
+    expect(await poll(session, stepScoped)).toBe('first');
+    expect(await poll(session, testScoped)).toBe('first');
+    session.startStep();
+    expect(await poll(session, stepScoped)).toBe('first');
+    expect(await poll(session, testScoped)).toBe('second');
+  });
+});
+
+describe('handler mocks', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'pmt-'));
+  const write = (name: string, code: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, code);
+    return path;
+  };
+
+  it('passes args, shared state and call history to the handler', async () => {
+    const handler = write('cart.mjs', `
+      export default async function (args, { state, history, toolName }) {
+        state.items = [...(state.items ?? []), args.sku];
+        return { tool: toolName, items: state.items, previousCalls: history.length };
+      }
+    `);
+    const session = new MockSession();
+    const mock: StepMock = { add_to_cart: { handler } };
+
+    await resolveMocks([makeToolCall('add_to_cart', { sku: 'A1' })], mock, session);
+    const results = await resolveMocks([makeToolCall('add_to_cart', { sku: 'B2' })], mock, session);
+
+    expect(JSON.parse(results.get('tc_1')!)).toEqual({ tool: 'add_to_cart', items: ['A1', 'B2'], previousCalls: 1 });
+    expect(session.history.map(c => c.args)).toEqual([{ sku: 'A1' }, { sku: 'B2' }]);
+  });
+
+  it('uses an export named after the tool', async () => {
+    const handler = write('hotels.mjs', 'export function get_hotel(args) { return `Hotel ${args.id}`; }');
+    const results = await resolveMocks([makeToolCall('get_hotel', { id: 7 })], { get_hotel: { handler } });
+    expect(results.get('tc_1')).toBe('Hotel 7');
+  });
+
+  it('turns handler errors into tool error results', async () => {
+    const throwing = write('throws.mjs', 'export default () => { throw new Error("Hotel not found"); }');
+    const empty = write('empty.mjs', 'export const x = 1;');
+
+    const thrown = await resolveMocks([makeToolCall('get_hotel', {})], { get_hotel: { handler: throwing } });
+    expect(JSON.parse(thrown.get('tc_1')!)).toEqual({ error: 'Hotel not found' });
+
+    const missing = await resolveMocks([makeToolCall('get_hotel', {})], { get_hotel: { handler: empty } });
+    expect(missing.get('tc_1')).toContain('must export a default function or a function named get_hotel');
+
+    const rejectsNull = write('null.mjs', 'export default async () => { throw null; }');
+    const rejected = await resolveMocks([makeToolCall('get_hotel', {})], { get_hotel: { handler: rejectsNull } });
+    expect(JSON.parse(rejected.get('tc_1')!)).toEqual({ error: 'null' });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { writeFileSync, mkdtempSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { loadOpenAPITools } from '../src/openapi.js';
+
+function writeSpec(content: string): string {
+  const file = join(mkdtempSync(join(tmpdir(), 'pmt-')), 'api.yaml');
+  writeFileSync(file, content);
+  return file;
+}
+
+const spec = writeSpec(`
+openapi: 3.0.3
+info: { title: Hotels, version: "1" }
+paths:
+  /hotels:
+    get:
+      operationId: searchHotels
+      summary: Search hotels in a city
+      parameters:
+        - name: city
+          in: query
+          required: true
+          description: City name
+          schema: { type: string }
+        - name: max_price
+          in: query
+          schema: { type: number, nullable: true, example: 200 }
+        - name: X-Request-Id
+          in: header
+          schema: { type: string }
+  /hotels/{hotelId}/reservations:
+    parameters:
+      - $ref: "#/components/parameters/HotelId"
+    post:
+      operationId: createReservation
+      description: Reserve a room
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: "#/components/schemas/Reservation" }
+  /health:
+    get:
+      summary: No operationId, never imported
+components:
+  parameters:
+    HotelId:
+      name: hotelId
+      in: path
+      schema: { type: string }
+  schemas:
+    Guest:
+      type: object
+      properties:
+        name: { type: string }
+    Reservation:
+      type: object
+      required: [id, nights, guest]
+      properties:
+        id: { type: string, readOnly: true }
+        nights: { type: integer, minimum: 1 }
+        guest: { $ref: "#/components/schemas/Guest" }
+`);
+
+describe('loadOpenAPITools', () => {
+  it('builds a tool per operation from parameters and the request body', () => {
+    expect(loadOpenAPITools(spec)).toEqual([
+      {
+        name: 'searchHotels',
+        description: 'Search hotels in a city',
+        parameters: {
+          type: 'object',
+          properties: {
+            city: { type: 'string', description: 'City name' },
+            max_price: { type: ['number', 'null'] },
+          },
+          required: ['city'],
+        },
+      },
+      {
+        name: 'createReservation',
+        description: 'Reserve a room',
+        parameters: {
+          type: 'object',
+          properties: {
+            hotelId: { type: 'string' },
+            nights: { type: 'integer', minimum: 1 },
+            guest: { type: 'object', properties: { name: { type: 'string' } } },
+          },
+          required: ['hotelId', 'nights', 'guest'],
+        },
+      },
+    ]);
+  });
+
+  it('imports only the listed operations, in order', () => {
+    expect(loadOpenAPITools(spec, ['createReservation', 'searchHotels']).map(t => t.name))
+      .toEqual(['createReservation', 'searchHotels']);
+    expect(() => loadOpenAPITools(spec, ['cancelReservation'])).toThrow('operation "cancelReservation" not found in api.yaml');
+  });
+
+  it('wraps non-object bodies and rejects recursive schemas', () => {
+    const file = writeSpec(`
+openapi: 3.1.0
+paths:
+  /notes:
+    post:
+      operationId: addNote
+      requestBody:
+        content:
+          text/plain:
+            schema: { type: string }
+  /tree:
+    put:
+      operationId: saveTree
+      requestBody:
+        content:
+          application/json:
+            schema: { $ref: "#/components/schemas/Node" }
+components:
+  schemas:
+    Node:
+      type: object
+      properties:
+        children: { type: array, items: { $ref: "#/components/schemas/Node" } }
+`);
+    expect(loadOpenAPITools(file, ['addNote'])[0]).toEqual({
+      name: 'addNote',
+      description: 'POST /notes',
+      parameters: { type: 'object', properties: { body: { type: 'string' } } },
+    });
+    expect(() => loadOpenAPITools(file, ['saveTree'])).toThrow(
+      'saveTree: recursive schemas cannot be used as tool parameters: #/components/schemas/Node → #/components/schemas/Node',
+    );
+  });
+
+  it('merges allOf object bodies into the tool parameters', () => {
+    const file = writeSpec(`
+openapi: 3.0.3
+paths:
+  /bookings:
+    post:
+      operationId: createBooking
+      requestBody:
+        content:
+          application/json:
+            schema:
+              allOf:
+                - $ref: "#/components/schemas/Base"
+                - type: object
+                  required: [nights]
+                  properties:
+                    nights: { type: integer }
+components:
+  schemas:
+    Base:
+      type: object
+      required: [hotel_id, id]
+      properties:
+        id: { type: string, readOnly: true }
+        hotel_id: { type: string }
+`);
+    expect(loadOpenAPITools(file)[0]!.parameters).toEqual({
+      type: 'object',
+      properties: { hotel_id: { type: 'string' }, nights: { type: 'integer' } },
+      required: ['hotel_id', 'nights'],
+    });
+  });
+
+  it('rejects documents that are not OpenAPI 3', () => {
+    expect(() => loadOpenAPITools(writeSpec('swagger: "2.0"\n'))).toThrow('api.yaml is not an OpenAPI 3 document');
+  });
+});
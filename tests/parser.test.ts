@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { parseTestFile } from '../src/parser.js';
-import { writeFileSync, mkdtempSync, rmSync } from 'node:fs';
-import { join } from 'node:path';
+import { writeFileSync, mkdtempSync, mkdirSync, rmSync } from 'node:fs';
+import { dirname, join } from 'node:path';
 import { tmpdir } from 'node:os';
 
 function writeTempYaml(content: string): string {
@@ -30,7 +30,7 @@ steps:
       response:
         contains: "hello"
 `);
-    const result = parseTestFile(file);
+    const result = parseTestFile(file)[0]!;
     expect(result.name).toBe('Test');
     expect(result.system_prompt).toBe('You are helpful');
     expect(result.tools).toHaveLength(1);
@@ -89,7 +89,7 @@ steps:
       response:
         contains: "hello"
 `);
-    const result = parseTestFile(file);
+    const result = parseTestFile(file)[0]!;
     expect(typeof result.system_prompt).toBe('object');
     const src = result.system_prompt as { promptman: { slug: string; stage: string; variables: Record<string, string> } };
     expect(src.promptman.slug).toBe('my-prompt');
@@ -111,7 +111,7 @@ steps:
         - default:
             return: []
 `);
-    const result = parseTestFile(file);
+    const result = parseTestFile(file)[0]!;
     const mock = result.steps[0]!.mock;
     expect(mock).toBeDefined();
     expect(mock!.search).toBeDefined();
@@ -131,9 +131,372 @@ steps:
       total_tool_calls:
         gte: 2
 `);
-    const result = parseTestFile(file);
+    const result = parseTestFile(file)[0]!;
     expect(result.steps).toHaveLength(2);
     expect(result.steps[1]!.assert).toBeDefined();
     expect(result.steps[1]!.assert!.tool_order).toEqual(['search', 'book']);
   });
+
+  it('parses repeat and min_pass_rate', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+repeat: 5
+min_pass_rate: 0.8
+steps:
+  - user: "hi"
+`);
+    const result = parseTestFile(file)[0]!;
+    expect(result.repeat).toBe(5);
+    expect(result.min_pass_rate).toBe(0.8);
+  });
+
+  it('throws on invalid repeat settings', () => {
+    expect(() => parseTestFile(writeTempYaml(`
+name: Test
+system_prompt: test
+repeat: 0
+steps:
+  - user: "hi"
+`))).toThrow('repeat');
+    expect(() => parseTestFile(writeTempYaml(`
+name: Test
+system_prompt: test
+min_pass_rate: 80
+steps:
+  - user: "hi"
+`))).toThrow('min_pass_rate');
+  });
+
+  it('validates judge assertions', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "Book me a flight"
+    expect:
+      response:
+        judge:
+          rubric: Politely declines and offers an alternative
+          threshold: 8
+`);
+    expect(parseTestFile(file)[0]!.steps[0]!.expect!.response!.judge).toEqual({
+      rubric: 'Politely declines and offers an alternative',
+      threshold: 8,
+    });
+
+    expect(() => parseTestFile(writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "hi"
+    expect:
+      response:
+        judge:
+          threshold: 8
+`))).toThrow('rubric');
+  });
+
+  it('resolves system_prompt files relative to the test file', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt:
+  file: ./prompt.md
+steps:
+  - user: "hi"
+`);
+    expect(() => parseTestFile(file)).toThrow('system_prompt file not found: ./prompt.md');
+
+    writeFileSync(join(dirname(file), 'prompt.md'), 'You are helpful');
+    expect(parseTestFile(file)[0]!.system_prompt).toEqual({ file: join(dirname(file), 'prompt.md') });
+  });
+
+  it('expands cases into one test per row', () => {
+    const file = writeTempYaml(`
+name: Books a hotel
+system_prompt: You book hotels in {{city}}
+cases:
+  - { city: Paris, nights: 3 }
+  - { _name: short stay, city: Rome, nights: 1 }
+steps:
+  - user: "Book {{city}} for {{nights}} nights"
+    expect:
+      tool_calls:
+        - name: book
+          args:
+            nights: "{{nights}}"
+`);
+    const tests = parseTestFile(file);
+    expect(tests.map(t => t.name)).toEqual(['Books a hotel [city=Paris, nights=3]', 'Books a hotel [short stay]']);
+    expect(tests[0]!.system_prompt).toBe('You book hotels in Paris');
+    expect(tests[1]!.steps[0]!.user).toBe('Book Rome for 1 nights');
+    expect(tests[1]!.steps[0]!.expect!.tool_calls![0]!.args).toEqual({ nights: 1 });
+    expect(tests[1]!.case).toEqual({ index: 1, vars: { _name: 'short stay', city: 'Rome', nights: 1 } });
+  });
+
+  it('reports unknown case variables with the row index', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+cases:
+  - { city: Paris }
+steps:
+  - user: "Book {{destination}}"
+`);
+    expect(() => parseTestFile(file)).toThrow('cases[0]: Unknown variable {{destination}}');
+  });
+
+  it('normalizes sequence mocks and validates their options', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "Check my booking"
+    mock:
+      check_status:
+        sequence:
+          - { status: pending }
+          - error: Timeout
+        on_exhausted: cycle
+`);
+    expect(parseTestFile(file)[0]!.steps[0]!.mock!.check_status).toEqual({
+      sequence: [{ return: { status: 'pending' } }, { error: 'Timeout' }],
+      on_exhausted: 'cycle',
+      scope: undefined,
+    });
+
+    expect(() => parseTestFile(writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "hi"
+    mock:
+      check_status:
+        sequence: [done]
+        on_exhausted: explode
+`))).toThrow('steps[0].mock: check_status: "on_exhausted" must be one of');
+  });
+
+  it('resolves mock handler paths relative to the test file', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "Find hotels"
+    mock:
+      search_hotels:
+        handler: ./hotels.mjs
+`);
+    expect(() => parseTestFile(file)).toThrow('search_hotels: handler file not found: ./hotels.mjs');
+
+    writeFileSync(join(dirname(file), 'hotels.mjs'), 'export default () => []');
+    expect(parseTestFile(file)[0]!.steps[0]!.mock!.search_hotels).toEqual({ handler: join(dirname(file), 'hotels.mjs') });
+  });
+
+  it('parses capture blocks and leaves captured placeholders for run time', () => {
+    const file = writeTempYaml(`
+name: Booking
+system_prompt: test
+cases:
+  - city: Paris
+steps:
+  - user: "Book a room in {{city}}"
+    capture:
+      booking_id: { from: result.create_booking, path: $.id }
+  - user: "Cancel {{booking_id}}"
+`);
+    const [test] = parseTestFile(file);
+    expect(test!.steps[0]!.capture).toEqual({ booking_id: { from: 'result.create_booking', path: '$.id' } });
+    expect(test!.steps[0]!.user).toBe('Book a room in Paris');
+    expect(test!.steps[1]!.user).toBe('Cancel {{booking_id}}');
+  });
+
+  it('resolves response schema files relative to the test file', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "Book it"
+    expect:
+      response:
+        json:
+          schema: { file: ./booking.schema.json }
+`);
+    expect(() => parseTestFile(file)).toThrow('steps[0].expect.response.json.schema file not found: ./booking.schema.json');
+
+    writeFileSync(join(dirname(file), 'booking.schema.json'), '{"type": "object"}');
+    expect(parseTestFile(file)[0]!.steps[0]!.expect!.response!.json).toEqual({
+      schema: { file: join(dirname(file), 'booking.schema.json') },
+    });
+  });
+
+  it('rejects judge rubrics inside combinators', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "Hello"
+    expect:
+      any_of:
+        - response: { judge: "Is polite" }
+        - tool_calls: [{ name: greet }]
+`);
+    expect(() => parseTestFile(file)).toThrow(
+      'steps[0].expect.any_of[0].response.judge is not supported inside any_of, all_of or not',
+    );
+  });
+
+  it('rejects empty combinator branches and unknown keys in them', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "Hello"
+    expect:
+      any_of:
+        - tool_call: [{ name: greet }]
+        - response: { contains: hi }
+`);
+    expect(() => parseTestFile(file)).toThrow(
+      'steps[0].expect.any_of[0] has unknown key "tool_call"; expected one of: tool_calls, tool_calls_not, response, any_of, all_of, not',
+    );
+
+    writeFileSync(file, 'name: Test\nsystem_prompt: test\nsteps:\n  - user: Hi\n    expect:\n      not: {}\n');
+    expect(() => parseTestFile(file)).toThrow('steps[0].expect.not must contain at least one assertion');
+
+    writeFileSync(file, 'name: Test\nsystem_prompt: test\nsteps:\n  - user: Hi\n    expect:\n      all_of:\n        - valid_args: true\n');
+    expect(() => parseTestFile(file)).toThrow('steps[0].expect.all_of[0].valid_args is only supported directly under expect');
+
+    writeFileSync(file, 'name: Test\nsystem_prompt: test\nsteps:\n  - assert:\n      any_of:\n        - total_turns: { max: 2 }\n        - tool_calls: []\n');
+    expect(() => parseTestFile(file)).toThrow('steps[0].assert.any_of[1] has unknown key "tool_calls"');
+  });
+
+  it('rejects invalid capture sources', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+steps:
+  - user: "Hello"
+    capture:
+      id: { from: tool.create_booking }
+`);
+    expect(() => parseTestFile(file)).toThrow('steps[0].capture: id: "from" must be "response"');
+  });
+
+  it('builds tests from shared fixtures and names the fixture in errors', () => {
+    const file = writeTempYaml(`
+extends: ./fixtures/base.yaml
+name: Test
+steps:
+  - $include: ./fixtures/steps.yaml
+`);
+    const dir = dirname(file);
+    mkdirSync(join(dir, 'fixtures'));
+    writeFileSync(join(dir, 'fixtures/base.yaml'), 'system_prompt: { file: ./prompt.md }\ntools:\n  - name: greet\n');
+    writeFileSync(join(dir, 'fixtures/prompt.md'), 'Be nice');
+    writeFileSync(join(dir, 'fixtures/steps.yaml'), '- user: Hi\n');
+
+    const test = parseTestFile(file)[0]!;
+    expect(test.system_prompt).toEqual({ file: join(dir, 'fixtures/prompt.md') });
+    expect(test.tools.map(t => t.name)).toEqual(['greet']);
+    expect(test.steps[0]!.user).toBe('Hi');
+    expect(test.fixtures).toEqual([join(dir, 'fixtures/base.yaml'), join(dir, 'fixtures/steps.yaml')]);
+
+    writeFileSync(join(dir, 'fixtures/steps.yaml'), '- user: Hi\n- {}\n');
+    expect(() => parseTestFile(file)).toThrow(`[${join(dir, 'fixtures/steps.yaml')}] steps[1] must have at least one of`);
+  });
+
+  it('imports tools from an OpenAPI document next to hand-written ones', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+tools:
+  - openapi: ./api.yaml
+    operations: [searchHotels]
+  - name: greet
+steps:
+  - user: "Hi"
+`);
+    const spec = join(dirname(file), 'api.yaml');
+    writeFileSync(spec, `
+openapi: 3.0.0
+paths:
+  /hotels:
+    get:
+      operationId: searchHotels
+      summary: Search hotels
+`);
+    const test = parseTestFile(file)[0]!;
+    expect(test.tools.map(t => t.name)).toEqual(['searchHotels', 'greet']);
+    expect(test.fixtures).toEqual([spec]);
+
+    writeFileSync(file, 'name: Test\nsystem_prompt: test\ntools: { openapi: ./api.yaml, operations: [nope] }\nsteps:\n  - user: Hi\n');
+    expect(() => parseTestFile(file)).toThrow('tools: operation "nope" not found in api.yaml');
+  });
+
+  it('parses tags and only/skip markers', () => {
+    const file = writeTempYaml(`
+name: Test
+system_prompt: test
+tags: [smoke, booking]
+skip: true
+steps:
+  - user: "Hi"
+`);
+    expect(parseTestFile(file)[0]).toMatchObject({ tags: ['smoke', 'booking'], skip: true });
+
+    writeFileSync(file, 'name: Test\nsystem_prompt: test\nonly: yes please\nsteps:\n  - user: Hi\n');
+    expect(() => parseTestFile(file)).toThrow('"only" must be true or false');
+  });
+
+  it('parses a tests list with shared defaults', () => {
+    const file = writeTempYaml(`
+system_prompt: test
+provider:
+  model: gpt-4o
+  max_tokens: 1024
+tags: [booking]
+tests:
+  - name: Books a hotel
+    steps:
+      - user: Book the Ritz
+  - name: Cancels a booking
+    provider:
+      model: gpt-4o-mini
+    tags: [cancel]
+    steps:
+      - user: Cancel it
+`);
+    const tests = parseTestFile(file);
+    expect(tests.map(t => t.name)).toEqual(['Books a hotel', 'Cancels a booking']);
+    expect(tests[0]).toMatchObject({ system_prompt: 'test', provider: { model: 'gpt-4o' }, tags: ['booking'] });
+    expect(tests[1]).toMatchObject({ provider: { model: 'gpt-4o-mini', max_tokens: 1024 }, tags: ['cancel'] });
+
+    writeFileSync(file, 'system_prompt: test\ntests:\n  - name: A\n    steps:\n      - user: Hi\n  - name: B\n    steps: []\n');
+    expect(() => parseTestFile(file)).toThrow('tests[1] (B): "steps" is required and must be a non-empty array');
+
+    writeFileSync(file, 'name: Suite\nsystem_prompt: test\ntests:\n  - name: A\n    steps:\n      - user: Hi\n');
+    expect(() => parseTestFile(file)).toThrow('name');
+  });
+
+  it('parses one test per YAML document and requires unique names', () => {
+    const file = writeTempYaml(`
+name: First
+system_prompt: test
+steps:
+  - user: Hi
+---
+name: Second
+system_prompt: test
+steps:
+  - user: Bye
+`);
+    expect(parseTestFile(file).map(t => t.name)).toEqual(['First', 'Second']);
+
+    writeFileSync(file, 'name: A\nsystem_prompt: test\nsteps:\n  - user: Hi\n---\nname: B\nsteps:\n  - user: Hi\n');
+    expect(() => parseTestFile(file)).toThrow('document 2: ');
+
+    writeFileSync(file, 'name: A\nsystem_prompt: test\nsteps:\n  - user: Hi\n---\nname: A\nsystem_prompt: test\nsteps:\n  - user: Hi\n');
+    expect(() => parseTestFile(file)).toThrow('Duplicate test name "A"; names must be unique within a file');
+  });
 });
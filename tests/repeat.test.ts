@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateRuns } from '../src/repeat.js';
+import type { TestResult } from '../src/types.js';
+
+function makeRun(passed: boolean, tokens: number, failure?: string): TestResult {
+  return {
+    name: 'Books a hotel',
+    file: 'booking.test.yaml',
+    passed,
+    steps: [{
+      stepIndex: 0,
+      userMessage: 'Book it',
+      assertions: failure ? [{ passed: false, message: failure }] : [{ passed: true, message: 'Called book' }],
+      toolCalls: [],
+      passed,
+    }],
+    globalAssertions: [],
+    totalTokens: tokens,
+    estimatedCost: tokens / 1_000_000,
+    durationMs: 100,
+  };
+}
+
+describe('aggregateRuns', () => {
+  it('computes the pass rate and applies the threshold', () => {
+    const runs = [makeRun(true, 100), makeRun(true, 120), makeRun(false, 140, 'Response too short: 3 < 10')];
+    expect(aggregateRuns(runs, 0.6).passed).toBe(true);
+    const result = aggregateRuns(runs, 0.8);
+    expect(result.passed).toBe(false);
+    expect(result.repeat!.passedRuns).toBe(2);
+    expect(result.repeat!.passRate).toBeCloseTo(2 / 3);
+    expect(result.repeat!.flaky).toBe(true);
+  });
+
+  it('is not flaky when every run agrees', () => {
+    const result = aggregateRuns([makeRun(true, 100), makeRun(true, 100)], 1);
+    expect(result.passed).toBe(true);
+    expect(result.repeat!.flaky).toBe(false);
+  });
+
+  it('groups failures of the same assertion across differing actual values', () => {
+    const runs = [
+      makeRun(false, 100, 'Args match: city: expected "Paris", got "paris"'),
+      makeRun(false, 100, 'Args match: city: expected "Paris", got "Lyon"'),
+      makeRun(true, 100),
+    ];
+    const failures = aggregateRuns(runs, 1).repeat!.assertionFailures;
+    expect(failures).toEqual([{ step: 1, message: 'Args match: city: expected "Paris"', failures: 2 }]);
+  });
+
+  it('reports token and cost spread and totals', () => {
+    const result = aggregateRuns([makeRun(true, 100), makeRun(true, 300)], 1);
+    expect(result.repeat!.tokens).toEqual({ min: 100, max: 300, mean: 200 });
+    expect(result.totalTokens).toBe(400);
+    expect(result.durationMs).toBe(200);
+  });
+
+  it('uses a failing run as the representative result', () => {
+    const result = aggregateRuns([makeRun(true, 100), makeRun(false, 100, 'Expected tool call: book — not called')], 0.5);
+    expect(result.steps[0]!.assertions[0]!.message).toContain('not called');
+  });
+
+  it('only reports an error when every run errored', () => {
+    const errored = { ...makeRun(false, 0), error: 'LLM API error: 500' };
+    expect(aggregateRuns([errored, makeRun(true, 100)], 0.5).error).toBeUndefined();
+    expect(aggregateRuns([errored, errored], 0.5).error).toBe('LLM API error: 500');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LiveReporter, reportJUnit, summarizeFiles } from '../src/reporter.js';
+import { makeTestResult, makeRunResult } from './helpers.js';
+
+describe('reportJUnit', () => {
+  it('maps tests to testcases grouped by file', () => {
+    const xml = reportJUnit(makeRunResult([
+      makeTestResult(),
+      makeTestResult({ name: 'Weather', file: `${process.cwd()}/tests/weather.test.yaml` }),
+    ]));
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(xml).toContain('<testsuites name="promptman-test" tests="2" failures="0" errors="0" skipped="0" time="4.000">');
+    expect(xml).toContain('<testsuite name="tests/booking.test.yaml" tests="1" failures="0" errors="0" skipped="0" time="2.500">');
+    expect(xml).toContain('<testcase name="Books a hotel" classname="tests/booking.test.yaml" time="2.500">');
+    expect(xml).toContain('<testsuite name="tests/weather.test.yaml"');
+  });
+
+  it('puts tokens and cost into properties', () => {
+    const xml = reportJUnit(makeRunResult([makeTestResult()]));
+    expect(xml).toContain('<property name="tokens" value="1200"/>');
+    expect(xml).toContain('<property name="cost_usd" value="0.004"/>');
+    expect(xml).toContain('<property name="duration_ms" value="2500"/>');
+  });
+
+  it('emits one failure per failed step assertion', () => {
+    const xml = reportJUnit(makeRunResult([makeTestResult({
+      passed: false,
+      steps: [{
+        stepIndex: 1,
+        userMessage: 'Book it',
+        toolCalls: [],
+        passed: false,
+        assertions: [
+          { passed: true, message: 'Called search' },
+          { passed: false, message: 'Expected tool call: book — not called' },
+          { passed: false, message: 'Response should contain "<confirmed>"' },
+        ],
+      }],
+    })]));
+    expect(xml.match(/<failure /g)).toHaveLength(2);
+    expect(xml).toContain('message="Step 2: Expected tool call: book — not called"');
+    expect(xml).toContain('Response should contain &quot;&lt;confirmed&gt;&quot;');
+  });
+
+  it('reports errors', () => {
+    const xml = reportJUnit(makeRunResult([makeTestResult({ passed: false, error: 'LLM API error: 500' })]));
+    expect(xml).toContain('errors="1"');
+    expect(xml).toContain('<error message="LLM API error: 500" type="Error">');
+  });
+
+  it('marks skipped tests', () => {
+    const run = makeRunResult([makeTestResult({ passed: false, skipped: true })]);
+    const xml = reportJUnit({ ...run, summary: { ...run.summary, failed: 0, skipped: 1 } });
+    expect(xml).toContain('failures="0" errors="0" skipped="1"');
+    expect(xml).toContain('<skipped/>');
+  });
+});
+
+describe('summarizeFiles', () => {
+  it('totals tests per file in run order', () => {
+    const weather = `${process.cwd()}/tests/weather.test.yaml`;
+    expect(summarizeFiles([
+      makeTestResult(),
+      makeTestResult({ name: 'Weather', file: weather, passed: false, error: 'timeout', durationMs: 1000 }),
+      makeTestResult({ name: 'Cancels', passed: false, durationMs: 500 }),
+      makeTestResult({ name: 'Skipped', passed: false, skipped: true, durationMs: 0 }),
+    ])).toEqual([
+      { file: `${process.cwd()}/tests/booking.test.yaml`, passed: 1, failed: 1, errors: 0, skipped: 1, total: 3, duration_ms: 3000 },
+      { file: weather, passed: 0, failed: 0, errors: 1, total: 1, duration_ms: 1000 },
+    ]);
+  });
+});
+
+describe('LiveReporter', () => {
+  it('stops the step spinner when a test errors mid-step', () => {
+    vi.useFakeTimers();
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    try {
+      const reporter = new LiveReporter(false);
+      reporter.handleEvent({ type: 'step:start', testName: 'Books a hotel', stepIndex: 0, userMessage: 'Hi' });
+      reporter.printTestEnd(makeTestResult({ passed: false, error: 'Cassette mismatch' }));
+      stderr.mockClear();
+      vi.advanceTimersByTime(500);
+      expect(stderr).not.toHaveBeenCalled();
+    } finally {
+      stderr.mockRestore();
+      stdout.mockRestore();
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { parseRetryAfter, backoffDelay, withRetry, isRetryable, ProviderError } from '../src/retry.js';
+import { callLLM } from '../src/llm.js';
+import type { Config, RetryInfo } from '../src/types.js';
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+  });
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per attempt with jitter between half and the full delay', () => {
+    expect(backoffDelay(1, 1000, () => 0)).toBe(500);
+    expect(backoffDelay(1, 1000, () => 1)).toBe(1000);
+    expect(backoffDelay(3, 1000, () => 1)).toBe(4000);
+  });
+
+  it('caps the delay at 30s', () => {
+    expect(backoffDelay(20, 1000, () => 1)).toBe(30_000);
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries dropped connections by the code behind fetch\'s TypeError', () => {
+    const reset = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+    const socket = Object.assign(new Error('other side closed'), { code: 'UND_ERR_SOCKET' });
+    expect(isRetryable(new TypeError('fetch failed', { cause: reset }))).toBe(true);
+    expect(isRetryable(new TypeError('terminated', { cause: socket }))).toBe(true);
+  });
+
+  it('does not retry other TypeErrors', () => {
+    expect(isRetryable(new TypeError("Cannot read properties of undefined (reading 'delta')"))).toBe(false);
+    expect(isRetryable(new TypeError('fetch failed', { cause: new Error('invalid header') }))).toBe(false);
+  });
+
+  it('retries a refused connection from a real fetch', async () => {
+    const server = createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    await new Promise(resolve => server.close(resolve));
+
+    const error = await fetch(`http://127.0.0.1:${port}/`).catch((err: unknown) => err);
+    expect(isRetryable(error)).toBe(true);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors and reports each retry', async () => {
+    const retries: RetryInfo[] = [];
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw new ProviderError('LLM API error: 503', 503);
+      return 'ok';
+    }, { retries: 2, baseDelay: 1, onRetry: info => retries.push(info) });
+
+    expect(result).toBe('ok');
+    expect(retries.map(r => r.attempt)).toEqual([1, 2]);
+    expect(retries[0]!.reason).toBe('provider error (503)');
+  });
+
+  it('gives up after the configured retries', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => {
+      calls++;
+      throw new ProviderError('LLM API error: 429', 429, 0);
+    }, { retries: 2, baseDelay: 1 })).rejects.toThrow('LLM API error: 429');
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry client errors', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => {
+      calls++;
+      throw new ProviderError('LLM API error: 401', 401);
+    }, { retries: 2, baseDelay: 1 })).rejects.toThrow('401');
+    expect(calls).toBe(1);
+  });
+
+  it('prefers the Retry-After delay', async () => {
+    const retries: RetryInfo[] = [];
+    let calls = 0;
+    await withRetry(async () => {
+      if (calls++ === 0) throw new ProviderError('LLM API error: 429', 429, 20);
+    }, { retries: 1, baseDelay: 5000, onRetry: info => retries.push(info) });
+    expect(retries[0]!.delayMs).toBe(20);
+    expect(retries[0]!.reason).toBe('rate limited (429)');
+  });
+});
+
+describe('callLLM retries', () => {
+  let server: Server;
+  let baseUrl: string;
+  let failures = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        if (failures > 0) {
+          failures--;
+          res.writeHead(429, 'Too Many Requests', { 'Retry-After': '0' });
+          res.end('{"error":"rate limited"}');
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          id: 'cmpl_1',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  function makeConfig(retries: number): Config {
+    return {
+      provider: { base_url: baseUrl, model: 'gpt-4o-mini', api_key: 'sk-test' },
+      settings: { timeout: 5000, max_turns: 5, verbose: false, retries, retry_delay: 1 },
+    };
+  }
+
+  it('recovers from a rate limit', async () => {
+    failures = 2;
+    const retries: RetryInfo[] = [];
+    const completion = await callLLM([{ role: 'user', content: 'Hi' }], [], makeConfig(2), {
+      onRetry: info => retries.push(info),
+    });
+    expect(completion.choices[0]!.message.content).toBe('Hello');
+    expect(retries).toHaveLength(2);
+  });
+
+  it('fails once retries are exhausted', async () => {
+    failures = 1;
+    await expect(callLLM([{ role: 'user', content: 'Hi' }], [], makeConfig(0))).rejects.toThrow('429');
+  });
+});
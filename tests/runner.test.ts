@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runTests } from '../src/runner.js';
+import type { CLIOptions, Config, Settings, TestDefinition } from '../src/types.js';
+
+const FILE = '/project/tests/booking.test.yaml';
+
+function makeConfig(settings: Partial<Settings> = {}): Config {
+  return {
+    provider: { base_url: 'http://llm.test/v1', model: 'gpt-4o', api_key: 'test' },
+    settings: { timeout: 5000, max_turns: 5, verbose: false, retries: 0, ...settings },
+  };
+}
+
+function makeTest(name: string, overrides: Partial<TestDefinition> = {}): { file: string; test: TestDefinition } {
+  return {
+    file: FILE,
+    test: { name, system_prompt: 'You are helpful', steps: [{ user: name }], ...overrides },
+  };
+}
+
+/** JSON reports go to stdout; nothing else is printed with this reporter. */
+const options: CLIOptions = { reporter: 'json' };
+
+/**
+ * Answer chat completions by echoing each request's last user message,
+ * after `delay(message)` ms, recording the messages and peak concurrency.
+ */
+function stubProvider(delay: (message: string) => number = () => 0) {
+  const calls: string[] = [];
+  let running = 0;
+  let maxRunning = 0;
+  vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string) as { messages: Array<{ role: string; content: string }> };
+    const message = body.messages.filter(m => m.role === 'user').at(-1)!.content;
+    calls.push(message);
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, delay(message));
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(init.signal!.reason);
+        }, { once: true });
+      });
+    } finally {
+      running--;
+    }
+    return new Response(JSON.stringify({
+      id: 'cmpl',
+      choices: [{ index: 0, message: { role: 'assistant', content: message }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 60, completion_tokens: 40, total_tokens: 100 },
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  });
+  return { calls, maxRunning: () => maxRunning };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('runTests with a run budget', () => {
+  it('marks the test it cut short and lists tests that never started', async () => {
+    stubProvider();
+    const result = await runTests([
+      makeTest('Books a hotel', { steps: [{ user: 'Book it' }, { user: 'Confirm it' }] }),
+      makeTest('Cancels a booking'),
+      makeTest('Changes dates', { skip: true }),
+    ], makeConfig({ budget: { max_tokens: 50 } }), options);
+
+    expect(result.tests.map(t => [t.name, !!t.budgetAborted, !!t.skipped])).toEqual([
+      ['Books a hotel', true, false],
+      ['Changes dates', false, true],
+    ]);
+    expect(result.tests[0]!.error).toBe('Run budget exceeded: 100 tokens used, limit is 50');
+    expect(result.tests[0]!.estimatedCost).toBeGreaterThan(0);
+    expect(result.summary).toMatchObject({ total: 2, errors: 1, skipped: 1 });
+    expect(result.budget).toMatchObject({
+      exceeded: 'tokens',
+      limit: 50,
+      tokens: 100,
+      aborted: 1,
+      not_run: [{ name: 'Cancels a booking', file: FILE }],
+    });
+  });
+});
+
+describe('runTests with repeated tests', () => {
+  it('marks a repeated test the budget cut short and leaves the cut run out of its stats', async () => {
+    stubProvider();
+    const result = await runTests([
+      makeTest('Books a hotel', { repeat: 3, steps: [{ user: 'Book it' }, { user: 'Confirm it' }] }),
+    ], makeConfig({ budget: { max_tokens: 250 } }), options);
+
+    const [test] = result.tests;
+    expect(test).toMatchObject({ budgetAborted: true, error: 'Run budget exceeded: 300 tokens used, limit is 250', totalTokens: 300 });
+    expect(test!.repeat).toMatchObject({ runs: 1, passedRuns: 1, assertionFailures: [] });
+    expect(result.summary).toMatchObject({ failed: 0, errors: 1 });
+    expect(result.budget).toMatchObject({ aborted: 1, not_run: [] });
+  });
+
+  it('drops a repeated test cancelled by --bail mid-run', async () => {
+    let bookings = 0;
+    stubProvider(message => (message === 'fail now' ? 30 : bookings++ === 0 ? 0 : 5000));
+    const result = await runTests([
+      makeTest('Fails', { steps: [{ user: 'fail now', expect: { response: { contains: 'confirmed' } } }] }),
+      makeTest('Books a hotel', { repeat: 3 }),
+    ], makeConfig({ concurrency: 2 }), { ...options, bail: true });
+
+    expect(bookings).toBe(2);
+    expect(result.tests.map(t => t.name)).toEqual(['Fails']);
+    expect(result.summary).toMatchObject({ failed: 1, total: 1, cancelled: 1 });
+  });
+});
+
+describe('runTests worker pool', () => {
+  it('runs up to `concurrency` tests at once and keeps results in file order', async () => {
+    const names = ['First', 'Second', 'Third', 'Fourth', 'Fifth'];
+    // Earlier tests take longer, so they finish last
+    const provider = stubProvider(message => 50 - names.indexOf(message) * 10);
+    const result = await runTests(names.map(name => makeTest(name)), makeConfig({ concurrency: 2 }), options);
+
+    expect(provider.maxRunning()).toBe(2);
+    expect(provider.calls).toHaveLength(5);
+    expect(result.tests.map(t => t.name)).toEqual(names);
+    expect(result.summary).toMatchObject({ passed: 5, total: 5 });
+  });
+
+  it('cancels in-flight tests under --bail and counts them', async () => {
+    const provider = stubProvider(message => (message === 'Slow' ? 5000 : 0));
+    const result = await runTests([
+      makeTest('Fails', { steps: [{ user: 'fail now', expect: { response: { contains: 'confirmed' } } }] }),
+      makeTest('Slow'),
+      makeTest('Never started'),
+    ], makeConfig({ concurrency: 2 }), { ...options, bail: true });
+
+    expect(provider.calls).toEqual(['fail now', 'Slow']);
+    expect(result.tests.map(t => t.name)).toEqual(['Fails']);
+    expect(result.summary).toMatchObject({ passed: 0, failed: 1, total: 1, cancelled: 1 });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchema, type JsonSchema } from '../src/schema.js';
+
+const hotelSearch: JsonSchema = {
+  type: 'object',
+  properties: {
+    destination: { type: 'string' },
+    check_in: { type: 'string', format: 'date' },
+    guests: { type: 'integer', minimum: 1 },
+    room: { type: 'string', enum: ['single', 'double'] },
+    address: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    },
+    items: {
+      type: 'array',
+      items: { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] },
+    },
+  },
+  required: ['destination', 'check_in'],
+};
+
+describe('validateSchema', () => {
+  it('accepts valid values', () => {
+    const errors = validateSchema({
+      destination: 'Paris',
+      check_in: '2026-03-15',
+      guests: 2,
+      room: 'double',
+      address: { city: 'Paris' },
+      items: [{ sku: 'A1' }],
+    }, hotelSearch, 'args');
+    expect(errors).toEqual([]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateSchema({ destination: 'Paris' }, hotelSearch, 'args')).toEqual([
+      'args.check_in: required property is missing',
+    ]);
+  });
+
+  it('reports type mismatches', () => {
+    const errors = validateSchema({ destination: 'Paris', check_in: '2026-03-15', guests: 2.5 }, hotelSearch, 'args');
+    expect(errors).toEqual(['args.guests: expected integer, got number 2.5']);
+  });
+
+  it('reports enum and format violations', () => {
+    const errors = validateSchema({ destination: 'Paris', check_in: 'next week', room: 'suite' }, hotelSearch, 'args');
+    expect(errors).toContain('args.check_in: expected format "date", got "next week"');
+    expect(errors).toContain('args.room: expected one of "single", "double", got "suite"');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(validateSchema('2028-02-29', { type: 'string', format: 'date' }, 'args.d')).toHaveLength(0);
+    expect(validateSchema('2026-02-30', { type: 'string', format: 'date' }, 'args.d')).toHaveLength(1);
+    expect(validateSchema('2026-13-01', { type: 'string', format: 'date' }, 'args.d')).toHaveLength(1);
+  });
+
+  it('reports precise paths in nested objects and arrays', () => {
+    const errors = validateSchema({
+      destination: 'Paris',
+      check_in: '2026-03-15',
+      address: {},
+      items: [{ sku: 'A1' }, { sku: 42 }],
+    }, hotelSearch, 'args');
+    expect(errors).toEqual([
+      'args.address.city: required property is missing',
+      'args.items[1].sku: expected string, got number 42',
+    ]);
+  });
+
+  it('rejects additional properties when disallowed', () => {
+    const schema: JsonSchema = { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false };
+    expect(validateSchema({ a: 'x', b: 1 }, schema, 'args')).toEqual(['args.b: unexpected property']);
+  });
+
+  it('supports anyOf', () => {
+    const schema: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+    expect(validateSchema(1, schema, 'v')).toEqual([]);
+    expect(validateSchema(true, schema, 'v')).toHaveLength(1);
+  });
+
+  it('supports allOf', () => {
+    const schema: JsonSchema = {
+      allOf: [
+        { type: 'object', properties: { hotel_id: { type: 'string' } }, required: ['hotel_id'] },
+        { type: 'object', properties: { nights: { type: 'integer' } } },
+      ],
+    };
+    expect(validateSchema({ hotel_id: 'h1', nights: 2 }, schema, 'args')).toEqual([]);
+    expect(validateSchema({ nights: 'x' }, schema, 'args')).toEqual([
+      'args.hotel_id: required property is missing',
+      'args.nights: expected integer, got string "x"',
+    ]);
+  });
+});
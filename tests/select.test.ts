@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { selectTests } from '../src/select.js';
+import type { TestDefinition } from '../src/types.js';
+
+function entry(name: string, overrides: Partial<TestDefinition> = {}) {
+  return { file: '/t/a.test.yaml', test: { name, system_prompt: 'test', steps: [{ user: 'hi' }], ...overrides } };
+}
+
+const parsed = [
+  entry('Books a hotel', { tags: ['smoke', 'booking'] }),
+  entry('Cancels a booking', { tags: ['booking', 'slow'] }),
+  entry('Says hello'),
+];
+
+function names(selected: ReturnType<typeof selectTests>) {
+  return selected.map(({ test, skipped }) => `${test.name}${skipped ? ' (skipped)' : ''}`);
+}
+
+describe('selectTests', () => {
+  it('runs everything without filters or markers', () => {
+    expect(names(selectTests(parsed, {}))).toEqual(['Books a hotel', 'Cancels a booking', 'Says hello']);
+  });
+
+  it('filters by name pattern and tags', () => {
+    expect(names(selectTests(parsed, { grep: 'book' }))).toEqual(['Cancels a booking']);
+    expect(names(selectTests(parsed, { grep: '^(Books|Says)' }))).toEqual(['Books a hotel', 'Says hello']);
+    expect(names(selectTests(parsed, { tags: ['booking'] }))).toEqual(['Books a hotel', 'Cancels a booking']);
+    expect(names(selectTests(parsed, { tags: ['booking'], excludeTags: ['slow'] }))).toEqual(['Books a hotel']);
+    expect(names(selectTests(parsed, { excludeTags: ['smoke', 'slow'] }))).toEqual(['Says hello']);
+  });
+
+  it('keeps skip and only markers as skipped tests', () => {
+    expect(names(selectTests([...parsed, entry('Broken', { skip: true })], {}))).toEqual([
+      'Books a hotel',
+      'Cancels a booking',
+      'Says hello',
+      'Broken (skipped)',
+    ]);
+    expect(names(selectTests([...parsed, entry('Focused', { only: true })], {}))).toEqual([
+      'Books a hotel (skipped)',
+      'Cancels a booking (skipped)',
+      'Says hello (skipped)',
+      'Focused',
+    ]);
+  });
+
+  it('ignores only markers on tests the filters leave out', () => {
+    const selected = selectTests([...parsed, entry('Focused', { only: true, tags: ['wip'] })], { excludeTags: ['wip'] });
+    expect(names(selected)).toEqual(['Books a hotel', 'Cancels a booking', 'Says hello']);
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(() => selectTests(parsed, { grep: '(' })).toThrow('Invalid --grep pattern');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readSSE, type SSEEvent } from '../src/sse.js';
+import { callLLM } from '../src/llm.js';
+import type { Config, ProviderType, TurnTiming } from '../src/types.js';
+
+function streamOf(...parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(encoder.encode(part));
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  for await (const event of readSSE(body)) events.push(event);
+  return events;
+}
+
+describe('readSSE', () => {
+  it('parses events split across chunks', async () => {
+    const events = await collect(streamOf('event: ping\ndata: {"a":', '1}\n\n: keep-alive\n\ndata: [DONE]\n\n'));
+    expect(events).toEqual([
+      { event: 'ping', data: '{"a":1}' },
+      { event: undefined, data: '[DONE]' },
+    ]);
+  });
+
+  it('joins multi-line data and handles CRLF and a missing final separator', async () => {
+    const events = await collect(streamOf('data: one\r\ndata: two\r\n\r\ndata: last'));
+    expect(events.map(e => e.data)).toEqual(['one\ntwo', 'last']);
+  });
+});
+
+describe('streaming responses', () => {
+  let server: Server;
+  let baseUrl: string;
+  const bodies: Array<Record<string, unknown>> = [];
+
+  const openaiChunks = [
+    { id: 'c1', choices: [{ index: 0, delta: { role: 'assistant', content: null }, finish_reason: null }] },
+    { id: 'c1', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] }, finish_reason: null }] },
+    { id: 'c1', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"location":' } }] }, finish_reason: null }] },
+    { id: 'c1', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"Berlin"}' } }] }, finish_reason: null }] },
+    { id: 'c1', choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+    { id: 'c1', choices: [], usage: { prompt_tokens: 40, completion_tokens: 12, total_tokens: 52 } },
+  ];
+
+  const anthropicEvents = [
+    { type: 'message_start', message: { id: 'msg_1', role: 'assistant', content: [], stop_reason: null, usage: { input_tokens: 30, output_tokens: 1 } } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking ' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'now.' } },
+    { type: 'content_block_stop', index: 0 },
+    { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: {} } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"location": ' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Berlin"}' } },
+    { type: 'content_block_stop', index: 1 },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 25 } },
+    { type: 'message_stop' },
+  ];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        bodies.push(JSON.parse(data) as Record<string, unknown>);
+        res.setHeader('Content-Type', 'text/event-stream');
+        if (req.url?.endsWith('/messages')) {
+          for (const event of anthropicEvents) res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        } else {
+          for (const chunk of openaiChunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+          res.write('data: [DONE]\n\n');
+        }
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  function makeConfig(type: ProviderType): Config {
+    return {
+      provider: { type, base_url: baseUrl, model: 'test-model', api_key: 'sk-test' },
+      settings: { timeout: 5000, max_turns: 5, verbose: false, stream: true },
+    };
+  }
+
+  it('assembles OpenAI tool-call deltas and captures usage and timing', async () => {
+    const timings: TurnTiming[] = [];
+    const completion = await callLLM([{ role: 'user', content: 'Weather?' }], [], makeConfig('openai'), {
+      onTiming: t => timings.push(t),
+    });
+
+    expect(bodies[bodies.length - 1]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(completion.choices[0]!.finish_reason).toBe('tool_calls');
+    expect(completion.choices[0]!.message).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"location":"Berlin"}' } }],
+    });
+    expect(completion.usage).toEqual({ prompt_tokens: 40, completion_tokens: 12, total_tokens: 52 });
+    expect(timings).toHaveLength(1);
+    expect(timings[0]!.ttftMs).toBeGreaterThanOrEqual(0);
+    expect(timings[0]!.latencyMs).toBeGreaterThanOrEqual(timings[0]!.ttftMs!);
+  });
+
+  it('assembles Anthropic text and tool input deltas', async () => {
+    const completion = await callLLM([{ role: 'user', content: 'Weather?' }], [], makeConfig('anthropic'));
+
+    expect(bodies[bodies.length - 1]).toMatchObject({ stream: true });
+    expect(completion.choices[0]!.finish_reason).toBe('tool_calls');
+    expect(completion.choices[0]!.message.content).toBe('Checking now.');
+    expect(completion.choices[0]!.message.tool_calls).toEqual([
+      { id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"location":"Berlin"}' } },
+    ]);
+    expect(completion.usage).toEqual({ prompt_tokens: 30, completion_tokens: 25, total_tokens: 55 });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { testDependencies, affectedTests, testsToRerun, type WatchedTest } from '../src/watch.js';
+import type { TestDefinition } from '../src/types.js';
+
+function makeTest(systemPrompt: TestDefinition['system_prompt']): TestDefinition {
+  return { name: 'Test', system_prompt: systemPrompt, steps: [{ user: 'hi' }] };
+}
+
+describe('testDependencies', () => {
+  it('includes the test file and a referenced prompt file', () => {
+    expect(testDependencies('/t/a.test.yaml', makeTest('inline'))).toEqual(['/t/a.test.yaml']);
+    expect(testDependencies('/t/a.test.yaml', makeTest({ file: '/t/prompt.md' }))).toEqual([
+      '/t/a.test.yaml',
+      '/t/prompt.md',
+    ]);
+  });
+
+  it('includes response schema files, even inside combinators', () => {
+    const test: TestDefinition = {
+      ...makeTest('inline'),
+      steps: [{
+        user: 'hi',
+        expect: { any_of: [{ response: { json: { schema: { file: '/t/reply.schema.json' } } } }] },
+      }],
+    };
+    expect(testDependencies('/t/a.test.yaml', test)).toEqual(['/t/a.test.yaml', '/t/reply.schema.json']);
+  });
+
+  it('includes shared fixture files', () => {
+    const test: TestDefinition = { ...makeTest('inline'), fixtures: ['/t/fixtures/base.yaml'] };
+    expect(testDependencies('/t/a.test.yaml', test)).toEqual(['/t/a.test.yaml', '/t/fixtures/base.yaml']);
+  });
+});
+
+describe('affectedTests', () => {
+  const watched: WatchedTest[] = [
+    { file: '/t/a.test.yaml', name: 'Books', deps: ['/t/a.test.yaml', '/t/prompt.md'] },
+    { file: '/t/a.test.yaml', name: 'Cancels', deps: ['/t/a.test.yaml', '/t/cancel.md'] },
+    { file: '/t/b.test.yaml', name: 'Greets', deps: ['/t/b.test.yaml', '/t/prompt.md'] },
+    { file: '/t/c.test.yaml', name: '', deps: ['/t/c.test.yaml'] },
+  ];
+  const names = (tests: WatchedTest[]) => tests.map(t => `${t.file}:${t.name}`);
+
+  it('re-runs only tests that depend on a changed file', () => {
+    expect(names(affectedTests(watched, ['/t/c.test.yaml'], '/t/config.yaml'))).toEqual(['/t/c.test.yaml:']);
+    expect(names(affectedTests(watched, ['/t/prompt.md'], '/t/config.yaml'))).toEqual([
+      '/t/a.test.yaml:Books',
+      '/t/b.test.yaml:Greets',
+    ]);
+    expect(names(affectedTests(watched, ['/t/cancel.md'], '/t/config.yaml'))).toEqual(['/t/a.test.yaml:Cancels']);
+    expect(affectedTests(watched, ['/t/other.md'], '/t/config.yaml')).toEqual([]);
+  });
+
+  it('re-runs everything when the config file changes', () => {
+    expect(affectedTests(watched, ['/t/config.yaml'], '/t/config.yaml')).toHaveLength(4);
+  });
+});
+
+describe('testsToRerun', () => {
+  it('keeps affected tests and tests the file did not have before', () => {
+    const file = '/t/a.test.yaml';
+    const previous: WatchedTest[] = [
+      { file, name: 'Books', deps: [file] },
+      { file, name: 'Cancels', deps: [file] },
+    ];
+    const parsed = ['Books', 'Cancels', 'Changes dates'].map(name => ({ file, test: { ...makeTest('inline'), name } }));
+
+    expect(testsToRerun(parsed, [previous[1]!], previous).map(p => p.test.name)).toEqual(['Cancels', 'Changes dates']);
+  });
+});